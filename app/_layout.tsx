@@ -4,11 +4,13 @@ import { DarkTheme, DefaultTheme, Theme, ThemeProvider } from '@react-navigation
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import * as React from 'react';
-import { Platform } from 'react-native';
+import { Platform, View } from 'react-native';
 import { NAV_THEME } from '~/lib/constants';
 import { useColorScheme } from '~/lib/useColorScheme';
 import { PortalHost } from '@rn-primitives/portal';
 import { ThemeToggle } from '~/components/ThemeToggle';
+import { HistoryLink } from '~/components/HistoryLink';
+import { BriefingSettingsLink } from '~/components/BriefingSettingsLink';
 import * as Notifications from 'expo-notifications';
 import * as TaskManager from 'expo-task-manager';
 import * as BackgroundFetch from 'expo-background-fetch';
@@ -90,6 +92,33 @@ export default function RootLayout() {
           name='index'
           options={{
             title: 'start your day right',
+            headerRight: () => (
+              <View className='flex-row gap-4'>
+                <HistoryLink />
+                <BriefingSettingsLink />
+                <ThemeToggle />
+              </View>
+            ),
+          }}
+        />
+        <Stack.Screen
+          name='history'
+          options={{
+            title: 'sleep history',
+            headerRight: () => <ThemeToggle />,
+          }}
+        />
+        <Stack.Screen
+          name='briefing'
+          options={{
+            title: 'morning briefing',
+            headerRight: () => <ThemeToggle />,
+          }}
+        />
+        <Stack.Screen
+          name='podcasts'
+          options={{
+            title: 'podcasts',
             headerRight: () => <ThemeToggle />,
           }}
         />
@@ -0,0 +1,15 @@
+import * as React from "react";
+import { View, ScrollView } from "react-native";
+import SummarizationCard from "~/components/SummarizationCard";
+import CalendarFilterCard from "~/components/CalendarFilterCard";
+
+export default function BriefingSettingsScreen() {
+  return (
+    <ScrollView className="flex-1">
+      <View className="w-full p-3">
+        <SummarizationCard />
+        <CalendarFilterCard />
+      </View>
+    </ScrollView>
+  );
+}
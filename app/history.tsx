@@ -0,0 +1,117 @@
+import * as React from "react";
+import { View, ScrollView } from "react-native";
+import { addWeeks, format, startOfWeek } from "date-fns";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Progress } from "~/components/ui/progress";
+import { Text } from "~/components/ui/text";
+import { useHistoryStore } from "~/lib/historyStore";
+import {
+  DayStats,
+  describeEvent,
+  formatDuration,
+  formatMinutesOfDay,
+  summarizeWeek,
+} from "~/lib/history";
+
+const RECENT_EVENT_COUNT = 20;
+
+const describeDay = (day: DayStats) => {
+  if (day.timeToDismissMs === null) {
+    return day.missed > 0 ? "Missed" : "—";
+  }
+  const snoozes = day.snoozes === 1 ? "1 snooze" : `${day.snoozes} snoozes`;
+  return day.snoozes > 0 ? `${formatDuration(day.timeToDismissMs)} · ${snoozes}` : formatDuration(day.timeToDismissMs);
+};
+
+export default function HistoryScreen() {
+  const events = useHistoryStore((state) => state.events);
+  const [weekOffset, setWeekOffset] = React.useState(0);
+
+  const weekStart = startOfWeek(addWeeks(new Date(), weekOffset), { weekStartsOn: 1 });
+  const summary = summarizeWeek(events, weekStart);
+
+  // Bars are relative to the slowest morning of the week
+  const slowest = Math.max(1, ...summary.days.map((day) => day.timeToDismissMs ?? 0));
+  const recent = [...events].reverse().slice(0, RECENT_EVENT_COUNT);
+
+  return (
+    <ScrollView className="flex-1">
+      <View className="w-full p-3">
+        <View className="flex-row justify-between items-center mb-4">
+          <Button variant="outline" size="sm" onPress={() => setWeekOffset(weekOffset - 1)}>
+            <Text>Previous</Text>
+          </Button>
+          <Text className="text-base font-semibold">Week of {format(weekStart, "MMM d")}</Text>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={weekOffset >= 0}
+            onPress={() => setWeekOffset(weekOffset + 1)}
+          >
+            <Text>Next</Text>
+          </Button>
+        </View>
+
+        <Card className="p-6 mb-4">
+          <Text className="text-xl font-semibold">Time to dismiss</Text>
+          <Text className="text-sm text-gray-500 mb-2">
+            {summary.averageTimeToDismissMs !== null
+              ? `Average ${formatDuration(summary.averageTimeToDismissMs)} from first ring`
+              : "No dismissed alarms this week"}
+          </Text>
+          {summary.days.map((day) => (
+            <View key={day.date.toISOString()} className="mt-2">
+              <View className="flex-row justify-between">
+                <Text className="text-sm">{format(day.date, "EEE")}</Text>
+                <Text className="text-sm text-gray-500">{describeDay(day)}</Text>
+              </View>
+              <Progress value={((day.timeToDismissMs ?? 0) / slowest) * 100} className="h-2 mt-1" />
+            </View>
+          ))}
+        </Card>
+
+        <Card className="p-6 mb-4">
+          <Text className="text-xl font-semibold">Wake-up consistency</Text>
+          {summary.consistency !== null ? (
+            <>
+              <Text className="text-sm text-gray-500 mb-2">
+                {`Usually up at ${formatMinutesOfDay(summary.averageWakeMinutes!)}, ±${Math.round(summary.wakeSpreadMinutes!)} min`}
+              </Text>
+              <Progress value={summary.consistency} className="mb-1" />
+              <Text className="text-sm">{summary.consistency}/100</Text>
+            </>
+          ) : (
+            <Text className="text-sm text-gray-500">Dismiss an alarm on two or more days to see this</Text>
+          )}
+          {summary.days.map((day) =>
+            day.wakeMinutes !== null ? (
+              <View key={day.date.toISOString()} className="flex-row justify-between mt-2">
+                <Text className="text-sm">{format(day.date, "EEE")}</Text>
+                <Text className="text-sm text-gray-500">{formatMinutesOfDay(day.wakeMinutes)}</Text>
+              </View>
+            ) : null
+          )}
+        </Card>
+
+        <Card className="p-6 mb-4">
+          <Text className="text-xl font-semibold mb-2">This week</Text>
+          <Text className="text-sm">{`Snoozes: ${summary.snoozes}`}</Text>
+          <Text className="text-sm">{`Missed alarms: ${summary.missed}`}</Text>
+          <Text className="text-sm">{`Morning briefings: ${summary.briefings}`}</Text>
+        </Card>
+
+        <Card className="p-6 mb-4">
+          <Text className="text-xl font-semibold mb-2">Recent events</Text>
+          {recent.length === 0 && <Text className="text-sm text-gray-500">Nothing recorded yet</Text>}
+          {recent.map((event) => (
+            <View key={event.id} className="flex-row justify-between mt-1">
+              <Text className="text-sm flex-1">{describeEvent(event)}</Text>
+              <Text className="text-sm text-gray-500">{format(new Date(event.at), "EEE h:mm a")}</Text>
+            </View>
+          ))}
+        </Card>
+      </View>
+    </ScrollView>
+  );
+}
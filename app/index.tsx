@@ -1,6 +1,6 @@
 import * as React from "react";
 import { View, ScrollView } from "react-native";
-import StartMyDay from "~/components/StartMyDay";
+import StartMyDay, { StartMyDayOptions } from "~/components/StartMyDay";
 import Alarm from "~/components/Alarm";
 
 const GITHUB_AVATAR_URI =
@@ -14,10 +14,10 @@ export default function Screen() {
     setProgress(Math.floor(Math.random() * 100));
   }
 
-  const handleAlarmTrigger = () => {
+  const handleAlarmTrigger = (options: StartMyDayOptions) => {
     // Trigger the StartMyDay component
     if (startMyDayRef.current) {
-      startMyDayRef.current.startMyDay();
+      startMyDayRef.current.startMyDay(options);
     }
   };
 
@@ -0,0 +1,13 @@
+import * as React from "react";
+import { View, ScrollView } from "react-native";
+import PodcastSubscriptionsCard from "~/components/PodcastSubscriptionsCard";
+
+export default function PodcastsScreen() {
+  return (
+    <ScrollView className="flex-1">
+      <View className="w-full p-3">
+        <PodcastSubscriptionsCard />
+      </View>
+    </ScrollView>
+  );
+}
@@ -1,7 +1,6 @@
 import React, { useState, useEffect, useRef } from "react";
-import { View, Switch, Platform, Pressable, AppState, Modal, StyleSheet, ScrollView } from "react-native";
+import { View, Platform, Pressable, AppState, Modal, StyleSheet, ScrollView, TextInput } from "react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
-import { Card } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { Text } from "~/components/ui/text";
 import { cn } from "~/lib/utils";
@@ -10,6 +9,7 @@ import * as Device from "expo-device";
 import * as TaskManager from "expo-task-manager";
 import * as BackgroundFetch from "expo-background-fetch";
 import { Audio, InterruptionModeIOS } from "expo-av";
+import { format } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -17,56 +17,140 @@ import {
   DialogFooter,
 } from "~/components/ui/dialog";
 import { useColorScheme } from "~/lib/useColorScheme";
-import { MoreHorizontal, Volume2 } from "lucide-react-native";
+import { Plus, Volume2 } from "lucide-react-native";
 import Test from "./Test";
+import AlarmCard from "~/components/AlarmCard";
+import RepeatPicker from "~/components/RepeatPicker";
+import SnoozePicker from "~/components/SnoozePicker";
+import SmartWakePicker from "~/components/SmartWakePicker";
+import ChallengePicker from "~/components/ChallengePicker";
+import AlarmAlert from "~/components/AlarmAlert";
+import VolumeRampPicker from "~/components/VolumeRampPicker";
+import EscalationPicker from "~/components/EscalationPicker";
+import BedtimePicker from "~/components/BedtimePicker";
+import RoutinePicker from "~/components/RoutinePicker";
+import { StartMyDayOptions } from "~/components/StartMyDay";
+import SoundTrimmer from "~/components/SoundTrimmer";
+import TimeZonePicker from "~/components/TimeZonePicker";
+import DaysOffCard from "~/components/DaysOffCard";
+import NapPicker from "~/components/NapPicker";
+import Chip from "~/components/Chip";
+import { applyTimeZoneChangeAsync } from "~/lib/timeZone";
+import { refreshHolidaysAsync } from "~/lib/daysOff";
+import { prefetchBriefingAsync } from "~/lib/briefingPrefetch";
+import { downloadForUpcomingAlarmsAsync } from "~/lib/podcastDownloads";
+import {
+  checkMissedAlarmsAsync,
+  recordAlarmDismissed,
+  recordAlarmFired,
+  recordAlarmSnoozed,
+} from "~/lib/history";
+import { DEFAULT_ESCALATION, EscalationSettings, isOccurrenceMissed } from "~/lib/escalation";
+import { BedtimeSettings, DEFAULT_BEDTIME } from "~/lib/bedtime";
+import { DEFAULT_ROUTINE, RoutineStepConfig } from "~/lib/routine";
+import { alarmScheduler } from "~/lib/alarmScheduler";
+import { DEFAULT_CHALLENGE, DismissChallengeSettings } from "~/lib/challenges";
+import {
+  DEFAULT_VOLUME_RAMP,
+  RAMP_STEP_MS,
+  VolumeRampSettings,
+  getRampVolume,
+  shouldEscalateSound,
+} from "~/lib/volumeRamp";
+import { applySmartWakeAsync, refreshSmartWakeAsync } from "~/lib/smartWake";
+import { useAlarmStore, getAlarmById, getSkipRules, waitForAlarmHydration } from "~/lib/alarmStore";
+import {
+  AlarmConfig,
+  AlarmKind,
+  AlarmRepeat,
+  DEFAULT_NAP_MINUTES,
+  DEFAULT_SMART_WAKE,
+  DEFAULT_SNOOZE_MINUTES,
+  SmartWakeSettings,
+  canSnooze,
+  createAlarmDraft,
+  createIntervalRepeat,
+  formatRepeat,
+  getAlarmDate,
+  getAlarmKind,
+  getNextActiveOccurrence,
+  getNextTriggerDate,
+  isRepeating,
+  isSelfDeleting,
+  startTimer,
+} from "~/lib/alarms";
+import {
+  ALARM_SOUNDS,
+  AlarmSound,
+  createAlarmSoundAsync,
+  getAlarmSound,
+  toAlarmSound,
+} from "~/lib/sounds";
+import { useSoundStore } from "~/lib/soundStore";
+import { deleteCustomSoundAsync, importCustomSoundAsync } from "~/lib/customSounds";
+import { SNOOZE_ACTION, getNotificationOccurrence, registerAlarmCategoryAsync } from "~/lib/alarmNotifications";
 
 const BACKGROUND_ALARM_TASK = "background-alarm-task";
 
+const ALARM_KINDS: { kind: AlarmKind; label: string }[] = [
+  { kind: "time", label: "Alarm" },
+  { kind: "date", label: "On a date" },
+  { kind: "timer", label: "Nap" },
+];
+
 // Define the background task
 TaskManager.defineTask(BACKGROUND_ALARM_TASK, async () => {
   try {
     console.log("[Background Task] Checking if alarm should trigger");
+
+    // Follow the device to a new time zone before anything else looks at trigger times
+    await applyTimeZoneChangeAsync();
+
+    // Leave holidays from the calendar out of recurring alarms
+    await refreshHolidaysAsync();
+
+    // The night before, move smart wake alarms ahead of early meetings
+    await applySmartWakeAsync();
+
+    // Log alarms that were never dismissed and stop their follow-ups
+    await checkMissedAlarmsAsync();
     
-    // Get all scheduled notifications
-    const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
-    
-    // Get current time
-    const now = new Date();
-    
-    // Check if any alarm should trigger now
-    for (const notification of scheduledNotifications) {
-      if (notification.content.data?.type === "alarm") {
-        const triggerTime = new Date(notification.trigger.value);
-        const timeDiff = (triggerTime.getTime() - now.getTime()) / 1000;
-        
-        console.log(`[Background Task] Alarm scheduled for ${triggerTime.toLocaleString()}`);
-        console.log(`[Background Task] Time until alarm: ${Math.floor(timeDiff / 60)} minutes ${Math.floor(timeDiff % 60)} seconds`);
-        
-        // If the alarm is within 1 minute of triggering, prepare audio system
-        if (timeDiff > 0 && timeDiff < 60) {
-          console.log("[Background Task] Alarm is about to trigger, preparing audio system");
-          await Audio.setAudioModeAsync({
-            playsInSilentModeIOS: true,
-            staysActiveInBackground: true,
-            shouldDuckAndroid: false,
-            interruptionModeIOS: InterruptionModeIOS.DoNotMix
-          });
-        }
-        
-        // If alarm should be triggering now or very soon (within 10 seconds)
-        if (timeDiff <= 10) {
-          console.log("[Background Task] Alarm is triggering now, ensuring audio is ready");
-          // Force audio setup for maximum volume
-          await Audio.setIsEnabledAsync(true);
-          await Audio.setAudioModeAsync({
-            playsInSilentModeIOS: true,
-            staysActiveInBackground: true,
-            shouldDuckAndroid: false,
-            interruptionModeIOS: InterruptionModeIOS.DoNotMix,
-          });
-        }
+    // Check if any alarm should trigger in the next minute
+    const upcoming = alarmScheduler.getUpcomingAlarms(useAlarmStore.getState().alarms, 60);
+    for (const { triggerAt: triggerTime, secondsUntil: timeDiff } of upcoming) {
+      console.log(`[Background Task] Alarm scheduled for ${triggerTime.toLocaleString()}`);
+      console.log(`[Background Task] Time until alarm: ${Math.floor(timeDiff / 60)} minutes ${Math.floor(timeDiff % 60)} seconds`);
+      
+      // If the alarm is within 1 minute of triggering, prepare audio system
+      if (timeDiff > 0 && timeDiff < 60) {
+        console.log("[Background Task] Alarm is about to trigger, preparing audio system");
+        await Audio.setAudioModeAsync({
+          playsInSilentModeIOS: true,
+          staysActiveInBackground: true,
+          shouldDuckAndroid: false,
+          interruptionModeIOS: InterruptionModeIOS.DoNotMix
+        });
+      }
+      
+      // If alarm should be triggering now or very soon (within 10 seconds)
+      if (timeDiff <= 10) {
+        console.log("[Background Task] Alarm is triggering now, ensuring audio is ready");
+        // Force audio setup for maximum volume
+        await Audio.setIsEnabledAsync(true);
+        await Audio.setAudioModeAsync({
+          playsInSilentModeIOS: true,
+          staysActiveInBackground: true,
+          shouldDuckAndroid: false,
+          interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+        });
       }
     }
+
+    // Once the audio is ready, prepare the next alarm's briefing ahead of time
+    await prefetchBriefingAsync();
+
+    // Download the podcast overnight, so it plays without waiting on the network
+    await downloadForUpcomingAlarmsAsync();
     
     return BackgroundFetch.BackgroundFetchResult.NewData;
   } catch (error) {
@@ -87,41 +171,54 @@ Notifications.setNotificationHandler({
 });
   
 
-// Define alarm sound options based on available sound files
-const ALARM_SOUNDS = [
-  { id: 'gentle_wakeup', name: 'Gentle Wakeup', file: require('~/assets/sounds/gentle_wakeup.wav') },
-  { id: 'heavy_sleeper_joke', name: 'Heavy Sleeper', file: require('~/assets/sounds/heavy_sleeper_joke.m4a') },
-  { id: 'notif_spam_joke', name: 'Notification Spam', file: require('~/assets/sounds/notif_spam_joke.m4a') },
-  { id: 'silent', name: 'Silent', file: require('~/assets/sounds/silent.mp3') },
-];
-
 interface AlarmProps {
-  onTrigger: () => void;
+  onTrigger: (options: StartMyDayOptions) => void;
 }
 
 const Alarm = ({ onTrigger }: AlarmProps) => {
   const { isDarkColorScheme } = useColorScheme();
-  const [isEnabled, setIsEnabled] = useState(false);
-  const [date, setDate] = useState(new Date());
+  const alarms = useAlarmStore((state) => state.alarms);
+  const addAlarm = useAlarmStore((state) => state.addAlarm);
+  const updateAlarm = useAlarmStore((state) => state.updateAlarm);
+  const removeAlarm = useAlarmStore((state) => state.removeAlarm);
   const [dialogOpen, setDialogOpen] = useState(false);
+  // Alarm being edited in the dialog, or null when adding a new one
+  const [editingAlarmId, setEditingAlarmId] = useState<string | null>(null);
   const [tempDate, setTempDate] = useState(new Date());
-  const [notification, setNotification] = useState<string | null>(null);
+  const [tempLabel, setTempLabel] = useState("");
+  const [tempSound, setTempSound] = useState<AlarmSound>(ALARM_SOUNDS[0]);
+  const [tempRepeat, setTempRepeat] = useState<AlarmRepeat>({ type: "once" });
+  const [tempSmartWake, setTempSmartWake] = useState<SmartWakeSettings>(DEFAULT_SMART_WAKE);
+  const [tempChallenge, setTempChallenge] = useState<DismissChallengeSettings>(DEFAULT_CHALLENGE);
+  const [tempVolumeRamp, setTempVolumeRamp] = useState<VolumeRampSettings>(DEFAULT_VOLUME_RAMP);
+  const [tempEscalation, setTempEscalation] = useState<EscalationSettings>(DEFAULT_ESCALATION);
+  const [tempTimeZone, setTempTimeZone] = useState<string | null>(null);
+  const [tempBedtime, setTempBedtime] = useState<BedtimeSettings>(DEFAULT_BEDTIME);
+  const [tempRoutine, setTempRoutine] = useState<RoutineStepConfig[]>(DEFAULT_ROUTINE);
+  const [tempKind, setTempKind] = useState<AlarmKind>("time");
+  const [tempNapMinutes, setTempNapMinutes] = useState(DEFAULT_NAP_MINUTES);
+  const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [tempSnooze, setTempSnooze] = useState({
+    snoozeMinutes: DEFAULT_SNOOZE_MINUTES,
+    maxSnoozes: null as number | null,
+  });
   const [hasPermission, setHasPermission] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string | null>(null);
   const [alarmAlertVisible, setAlarmAlertVisible] = useState(false);
-  const [alarmSound, setAlarmSound] = useState<Audio.Sound | null>(null);
-  const [selectedAlarmSound, setSelectedAlarmSound] = useState(ALARM_SOUNDS[0]);
+  // Alarm that is currently ringing
+  const [activeAlarm, setActiveAlarm] = useState<AlarmConfig | null>(null);
+  // How many times the ringing alarm has been snoozed so far
+  const [activeSnoozeCount, setActiveSnoozeCount] = useState(0);
+  const [activeOccurrence, setActiveOccurrence] = useState<Date>(new Date());
   const [soundSelectorOpen, setSoundSelectorOpen] = useState(false);
+  const customSounds = useSoundStore((state) => state.sounds);
+  const [trimmingSoundId, setTrimmingSoundId] = useState<string | null>(null);
+  const [soundError, setSoundError] = useState<string | null>(null);
+  const alarmSound = useRef<Audio.Sound | null>(null);
+  const rampTimer = useRef<ReturnType<typeof setInterval> | null>(null);
   const notificationListener = useRef<Notifications.Subscription>();
   const responseListener = useRef<Notifications.Subscription>();
-  const isInitialMount = useRef(true);
-
-  // Format time to display in a readable format
-  const formattedTime = date.toLocaleTimeString([], {
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: true,
-  });
 
   // Request notification permissions on mount
   // Initialize background fetch task
@@ -149,6 +246,12 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       } else {
         // Register background task if permissions granted
         registerBackgroundFetchAsync();
+        // Restore saved alarms once they are loaded from storage, in the
+        // device's current time zone
+        waitForAlarmHydration()
+          .then(() => applyTimeZoneChangeAsync())
+          .then(reconcileAlarms)
+          .then(() => refreshHolidaysAsync());
       }
     });
 
@@ -159,8 +262,7 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
         if (notification.request.content.data?.action === "startMyDay") {
           console.log("StartMyDay notification received");
           // Immediately play sound when notification is received
-          playAlarmSound();
-          setAlarmAlertVisible(true);
+          showAlarmAlert(notification);
         }
       });
 
@@ -168,29 +270,37 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     responseListener.current =
       Notifications.addNotificationResponseReceivedListener((response) => {
         console.log("Notification response received:", response);
-        if (
+        if (response.actionIdentifier === SNOOZE_ACTION) {
+          // Snoozed straight from the notification without opening the alert
+          const data = response.notification.request.content.data;
+          const alarm = data?.alarmId ? getAlarmById(data.alarmId) : undefined;
+          if (alarm) {
+            const occurrence = getNotificationOccurrence(data, new Date(response.notification.date));
+            recordAlarmFired(alarm, occurrence, data?.snoozeCount ?? 0);
+            if (data?.type === "alarm") {
+              advanceAlarm(alarm, occurrence);
+            }
+            snoozeAlarm(alarm, data?.snoozeCount ?? 0, occurrence);
+          }
+        } else if (
           response.notification.request.content.data?.action === "startMyDay"
         ) {
           console.log("StartMyDay notification response received");
           // When user interacts with notification, ensure sound is playing
-          playAlarmSound();
-          setAlarmAlertVisible(true);
+          showAlarmAlert(response.notification);
         }
       });
 
     // Listen for app state changes
     appStateListener.current = AppState.addEventListener("change", (nextAppState) => {
       if (nextAppState === "active") {
-        // Check and refresh alarms when app comes to foreground
-        Notifications.getAllScheduledNotificationsAsync().then(
-          (notifications) => {
-            console.log("Currently scheduled notifications:", notifications);
-            // If alarm is enabled but no notifications exist, reschedule
-            if (isEnabled && notifications.length === 0) {
-              scheduleAlarm();
-            }
-          }
-        );
+        // Check and refresh alarms when app comes to foreground, rescheduling
+        // everything first if the user has travelled to another time zone
+        applyTimeZoneChangeAsync()
+          .then(reconcileAlarms)
+          .then(() => refreshHolidaysAsync())
+          .then(() => applySmartWakeAsync())
+          .then(() => checkMissedAlarmsAsync());
       }
     });
 
@@ -201,61 +311,49 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       );
       Notifications.removeNotificationSubscription(responseListener.current!);
       appStateListener.current?.remove();
-      cancelAlarm();
       stopAlarmSound();
     };
   }, []);
 
-  // Update notification when alarm status changes
-  useEffect(() => {
-    // Skip this effect on the initial mount to prevent immediate triggering
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
-    }
+  // Reschedule saved alarms that are missing or stale in the OS schedule
+  const reconcileAlarms = async () => {
+    try {
+      // Cancels notifications that no longer belong to an enabled alarm
+      const { needsSchedule, expired } = await alarmScheduler.reconcile(useAlarmStore.getState().alarms);
 
-    if (isEnabled && hasPermission) {
-      scheduleAlarm();
-    } else if (!isEnabled) {
-      cancelAlarm();
-    } else if (isEnabled && !hasPermission) {
-      // If alarm is enabled but no permissions, try to request them
-      registerForPushNotificationsAsync().then((status) => {
-        setHasPermission(status === "granted");
-        if (status === "granted") {
-          scheduleAlarm();
-        } else {
-          setDebugInfo(
-            "Please grant notification permissions to use the alarm"
-          );
-          setIsEnabled(false);
+      for (const alarm of expired) {
+        console.log(`One-off alarm ${alarm.id} already rang, disabling`);
+        updateAlarm(alarm.id, { enabled: false, notificationIds: [] });
+      }
+
+      // Dated alarms and naps that rang long enough ago that they can't still be ringing
+      const now = new Date();
+      for (const alarm of useAlarmStore.getState().alarms) {
+        if (
+          isSelfDeleting(alarm.repeat) &&
+          !alarm.enabled &&
+          !alarm.snoozeNotificationId &&
+          isOccurrenceMissed(alarm.escalation, getNextTriggerDate(alarm, now), now)
+        ) {
+          console.log(`Alarm ${alarm.id} already rang, removing`);
+          await removeAlarmAsync(alarm);
         }
-      });
+      }
+
+      for (const alarm of needsSchedule) {
+        console.log(`Alarm ${alarm.id} is missing or stale, rescheduling`);
+        await scheduleAlarm(alarm);
+      }
+    } catch (error) {
+      console.error("Error reconciling alarms:", error);
     }
-  }, [isEnabled, date, hasPermission]);
+  };
 
-  const scheduleAlarm = async () => {
+  const scheduleAlarm = async (alarm: AlarmConfig, from: Date = new Date()) => {
     try {
-      // Cancel any existing notifications
-      await cancelAlarm();
-
       // Calculate time until alarm
       const now = new Date();
-      let triggerTime = new Date(date);
-
-      console.log("Current time:", now.toLocaleString());
-      console.log("Initial trigger time:", triggerTime.toLocaleString());
-      console.log(
-        "Times match?",
-        now.getTime() === triggerTime.getTime() ? "Yes" : "No"
-      );
-
-      // If the selected time is earlier today, schedule for tomorrow
-      if (triggerTime.getTime() <= now.getTime()) {
-        console.log("Trigger time is in the past, scheduling for tomorrow");
-        triggerTime.setDate(triggerTime.getDate() + 1);
-        console.log("Updated trigger time:", triggerTime.toLocaleString());
-      }
+      const triggerTime = alarmScheduler.getNextTrigger(alarm, from);
 
       // For debugging, log the time difference
       const diff = (triggerTime.getTime() - now.getTime()) / 1000;
@@ -263,88 +361,29 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       const minutes = Math.floor((diff % 3600) / 60);
       const seconds = Math.floor(diff % 60);
 
-      console.log(`Scheduling alarm for ${triggerTime.toLocaleString()}`);
       console.log(
-        `Time until alarm: ${hours}h ${minutes}m ${seconds}s (${diff} seconds total)`
+        `Scheduling alarm ${alarm.id} (${formatRepeat(alarm.repeat)}) for ${triggerTime.toLocaleString()}`
       );
       console.log(
-        `Date object details: ${JSON.stringify({
-          year: triggerTime.getFullYear(),
-          monthIndex: triggerTime.getMonth() + 1,
-          day: triggerTime.getDate(),
-          hours: triggerTime.getHours(),
-          minutes: triggerTime.getMinutes(),
-          seconds: triggerTime.getSeconds(),
-        })}`
+        `Time until alarm: ${hours}h ${minutes}m ${seconds}s (${diff} seconds total)`
       );
 
       // Create a persistent "alarm set" notification
-      await Notifications.setNotificationCategoryAsync("alarm", [
-        {
-          identifier: "dismiss",
-          buttonTitle: "Dismiss",
-          options: {
-            isDestructive: true,
-          },
-        },
-      ]);
-      // Schedule the actual alarm notification
-      const identifier = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: "Alarm",
-          body: "Time to wake up!",
-          data: { 
-            action: "startMyDay",
-            type: "alarm",
-            alarmTime: triggerTime.toISOString(),
-            soundId: selectedAlarmSound.id
-          },
-          sound: selectedAlarmSound.id === 'silent' ? false : selectedAlarmSound.id,
-          // Add categoryIdentifier for actions
-          categoryIdentifier: "alarm",
-          interruptionLevel: "critical", // Critical alert for iOS
-          priority: "max", // Maximum priority for Android
-          // Make the notification sticky on Android
-          sticky: Platform.OS === "android",
-          autoDismiss: false
-        },
-        trigger: {
-          type: Notifications.SchedulableTriggerInputTypes.DATE,
-          date: triggerTime,
-        },
-      });
+      await registerAlarmCategoryAsync();
+      // Replace this alarm's existing notifications, keeping the ladder of a ringing occurrence
+      const scheduled = await alarmScheduler.scheduleAlarm(
+        { ...alarm, escalations: getAlarmById(alarm.id)?.escalations ?? alarm.escalations },
+        from
+      );
 
-      console.log("Scheduled alarm notification:", identifier);
-      setNotification(identifier);
+      console.log("Scheduled alarm notifications:", scheduled.notificationIds);
+      updateAlarm(alarm.id, scheduled);
       setDebugInfo(
-        `Alarm scheduled: ${identifier} for ${triggerTime.toLocaleTimeString()}`
+        `Alarm scheduled: ${scheduled.notificationIds.join(", ")} for ${triggerTime.toLocaleTimeString()}`
       );
 
       // Ensure background task is registered
       await registerBackgroundFetchAsync();
-
-      // Also check if the notification was actually scheduled
-      const scheduledNotifications =
-        await Notifications.getAllScheduledNotificationsAsync();
-      console.log("All scheduled notifications:", scheduledNotifications);
-      console.log(
-        "Number of scheduled notifications:",
-        scheduledNotifications.length
-      );
-
-      if (scheduledNotifications.length > 0) {
-        console.log(
-          "First notification details:",
-          JSON.stringify({
-            id: scheduledNotifications[0].identifier,
-            title: scheduledNotifications[0].content.title,
-            body: scheduledNotifications[0].content.body,
-            trigger: scheduledNotifications[0].trigger,
-          })
-        );
-      } else {
-        console.log("No scheduled notifications found after scheduling");
-      }
     } catch (error) {
       console.error("Error scheduling alarm:", error);
       setDebugInfo(
@@ -353,12 +392,11 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     }
   };
 
-  const cancelAlarm = async () => {
+  const cancelAlarm = async (alarm: AlarmConfig) => {
     try {
-      if (notification) {
-        await Notifications.cancelScheduledNotificationAsync(notification);
-        console.log("Canceled notification:", notification);
-        setNotification(null);
+      if (alarm.notificationIds.length > 0 || alarm.bedtimeNotificationId) {
+        await alarmScheduler.cancelAlarm(alarm);
+        updateAlarm(alarm.id, { notificationIds: [], bedtimeNotificationId: undefined });
         setDebugInfo("Alarm canceled");
       }
     } catch (error) {
@@ -368,17 +406,96 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       );
     }
   };
+
+  // Enable or disable a single alarm
+  const toggleAlarm = async (alarm: AlarmConfig, enabled: boolean) => {
+    if (!enabled) {
+      updateAlarm(alarm.id, { enabled: false });
+      await cancelAlarm(alarm);
+      await clearSnooze(alarm);
+      await stopEscalation(alarm.id);
+      return;
+    }
+
+    let granted = hasPermission;
+    if (!granted) {
+      // If alarm is enabled but no permissions, try to request them
+      const status = await registerForPushNotificationsAsync();
+      granted = status === "granted";
+      setHasPermission(granted);
+    }
+
+    if (!granted) {
+      setDebugInfo("Please grant notification permissions to use the alarm");
+      return;
+    }
+
+    let changes: Partial<AlarmConfig> = { enabled: true };
+    if (alarm.repeat.type === "timer") {
+      // Switching a nap back on starts a fresh countdown
+      changes = { ...changes, ...startTimer(alarm.repeat.minutes) };
+    } else if (alarm.repeat.type === "date" && getNextTriggerDate(alarm).getTime() <= Date.now()) {
+      setDebugInfo("This alarm's date has already passed");
+      return;
+    }
+
+    updateAlarm(alarm.id, changes);
+    await scheduleAlarm({ ...alarm, ...changes });
+  };
+
+  // Skip just the next occurrence, or bring it back
+  const skipNextOccurrence = async (alarm: AlarmConfig, skip: boolean) => {
+    const skippedOccurrence = skip
+      ? getNextActiveOccurrence({ ...alarm, skippedOccurrence: undefined }, new Date(), getSkipRules()).toISOString()
+      : undefined;
+    updateAlarm(alarm.id, { skippedOccurrence });
+    await scheduleAlarm({ ...alarm, skippedOccurrence });
+  };
+
+  // Show the full-screen alert for the alarm that fired
+  const showAlarmAlert = (notification: Notifications.Notification) => {
+    const data = notification.request.content.data;
+    const alarm = data?.alarmId ? getAlarmById(data.alarmId) : undefined;
+    const occurrence = getNotificationOccurrence(data ?? {}, new Date(notification.date));
+    setActiveAlarm(alarm ?? null);
+    setActiveSnoozeCount(data?.snoozeCount ?? 0);
+    setActiveOccurrence(occurrence);
+    // Escalation follow-ups carry their own, harsher sound
+    playAlarmSound(getAlarmSound(data?.soundId ?? alarm?.soundId ?? ALARM_SOUNDS[0].id), alarm?.volumeRamp);
+    setAlarmAlertVisible(true);
+
+    // Snooze and escalation follow-ups don't move the alarm's own schedule
+    if (alarm) {
+      recordAlarmFired(alarm, occurrence, data?.snoozeCount ?? 0);
+    }
+    if (alarm && data?.type === "alarm") {
+      advanceAlarm(alarm, occurrence);
+    }
+  };
+
+  // Move an alarm past the occurrence that just fired
+  const advanceAlarm = async (alarm: AlarmConfig, firedAt: Date) => {
+    if (!alarm.enabled) return;
+
+    if (!isRepeating(alarm.repeat)) {
+      // One-off alarms switch themselves off once they've rung
+      updateAlarm(alarm.id, { enabled: false, notificationIds: [] });
+      return;
+    }
+
+    // Schedule from just after the fired occurrence so it isn't picked again.
+    // Smart wake may have rung early, so this uses the occurrence's set time.
+    const from = new Date(Math.max(Date.now(), firedAt.getTime() + 60 * 1000));
+    await scheduleAlarm(alarm, from);
+  };
   
-  // Play alarm sound on loop with maximum volume
-  const playAlarmSound = async () => {
+  // Play alarm sound on loop, at maximum volume unless a gentle ramp is configured
+  const playAlarmSound = async (selectedSound: AlarmSound, ramp: VolumeRampSettings = DEFAULT_VOLUME_RAMP) => {
     try {
       console.log("Starting alarm sound playback...");
       
       // Stop any existing sound
-      if (alarmSound) {
-        await alarmSound.stopAsync();
-        await alarmSound.unloadAsync();
-      }
+      await stopAlarmSound();
       
       // Configure audio for maximum volume and background playback
       await Audio.setAudioModeAsync({
@@ -391,29 +508,80 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       });
       
       // Load and play the selected alarm sound
-      const { sound } = await Audio.Sound.createAsync(
-        selectedAlarmSound.file,
+      const sound = await createAlarmSoundAsync(
+        selectedSound,
         { 
           isLooping: true,
           shouldPlay: true,
-          volume: 1.0, // Maximum volume
+          volume: getRampVolume(ramp, 0), // Maximum volume without a ramp
         }
       );
       
-      setAlarmSound(sound);
-      console.log(`Alarm sound "${selectedAlarmSound.name}" playing on loop`);
+      alarmSound.current = sound;
+      console.log(`Alarm sound "${selectedSound.name}" playing on loop`);
+
+      if (ramp.enabled) {
+        startVolumeRamp(ramp);
+      }
     } catch (err) {
       console.error("Error playing alarm sound:", err);
     }
   };
+
+  // Raise the volume step by step, and swap sounds if the alarm keeps ringing
+  const startVolumeRamp = (ramp: VolumeRampSettings) => {
+    const startedAt = Date.now();
+    let escalated = false;
+
+    rampTimer.current = setInterval(async () => {
+      const sound = alarmSound.current;
+      if (!sound) return;
+      const elapsed = Date.now() - startedAt;
+
+      try {
+        if (!escalated && shouldEscalateSound(ramp, elapsed)) {
+          escalated = true;
+          const nextSound = getAlarmSound(ramp.escalateSoundId!);
+          console.log(`Alarm still ringing, switching to "${nextSound.name}"`);
+
+          const louder = await createAlarmSoundAsync(nextSound, {
+            isLooping: true,
+            shouldPlay: true,
+            volume: getRampVolume(ramp, elapsed),
+          });
+          // The alarm may have been dismissed while the new sound was loading
+          if (alarmSound.current !== sound) {
+            await louder.unloadAsync();
+            return;
+          }
+          alarmSound.current = louder;
+          await sound.stopAsync();
+          await sound.unloadAsync();
+          return;
+        }
+
+        const status = await sound.getStatusAsync();
+        if (status.isLoaded && status.volume < 1) {
+          await sound.setVolumeAsync(getRampVolume(ramp, elapsed));
+        }
+      } catch (err) {
+        console.error("Error ramping alarm volume:", err);
+      }
+    }, RAMP_STEP_MS);
+  };
   
   // Stop the alarm sound
   const stopAlarmSound = async () => {
     try {
-      if (alarmSound) {
-        await alarmSound.stopAsync();
-        await alarmSound.unloadAsync();
-        setAlarmSound(null);
+      if (rampTimer.current) {
+        clearInterval(rampTimer.current);
+        rampTimer.current = null;
+      }
+      if (alarmSound.current) {
+        const sound = alarmSound.current;
+        alarmSound.current = null;
+        await sound.stopAsync();
+        await sound.unloadAsync();
         console.log("Alarm sound stopped");
       }
     } catch (err) {
@@ -421,9 +589,48 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     }
   };
 
-  // Open edit dialog, initializing tempDate with current date
-  const openEditDialog = () => {
-    setTempDate(new Date(date));
+  // Open the dialog for a new alarm
+  const openAddDialog = () => {
+    const draft = createAlarmDraft();
+    setEditingAlarmId(null);
+    setTempDate(getAlarmDate(draft));
+    setTempLabel(draft.label);
+    setTempSound(getAlarmSound(draft.soundId));
+    setTempRepeat(draft.repeat);
+    setTempSnooze({ snoozeMinutes: draft.snoozeMinutes, maxSnoozes: draft.maxSnoozes });
+    setTempSmartWake(draft.smartWake);
+    setTempChallenge(draft.challenge);
+    setTempVolumeRamp(draft.volumeRamp);
+    setTempEscalation(draft.escalation);
+    setTempTimeZone(draft.timeZone);
+    setTempBedtime(draft.bedtime);
+    setTempRoutine(draft.routine);
+    setTempKind("time");
+    setTempNapMinutes(DEFAULT_NAP_MINUTES);
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  // Open edit dialog, initializing the draft with the alarm's current values
+  const openEditDialog = (alarm: AlarmConfig) => {
+    setEditingAlarmId(alarm.id);
+    setTempDate(
+      alarm.repeat.type === "date" ? getNextTriggerDate(alarm) : getAlarmDate(alarm)
+    );
+    setTempLabel(alarm.label);
+    setTempSound(getAlarmSound(alarm.soundId));
+    setTempRepeat(alarm.repeat);
+    setTempSnooze({ snoozeMinutes: alarm.snoozeMinutes, maxSnoozes: alarm.maxSnoozes });
+    setTempSmartWake(alarm.smartWake);
+    setTempChallenge(alarm.challenge);
+    setTempVolumeRamp(alarm.volumeRamp);
+    setTempEscalation(alarm.escalation);
+    setTempTimeZone(alarm.timeZone);
+    setTempBedtime(alarm.bedtime);
+    setTempRoutine(alarm.routine);
+    setTempKind(getAlarmKind(alarm.repeat));
+    setTempNapMinutes(alarm.repeat.type === "timer" ? alarm.repeat.minutes : DEFAULT_NAP_MINUTES);
+    setDialogError(null);
     setDialogOpen(true);
   };
   
@@ -439,18 +646,13 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
   };
   
   // Handle sound selection
-  const handleSelectSound = (sound: typeof ALARM_SOUNDS[0]) => {
-    setSelectedAlarmSound(sound);
+  const handleSelectSound = (sound: AlarmSound) => {
+    setTempSound(sound);
     setSoundSelectorOpen(false);
     
     // Preview the selected sound
     previewAlarmSound(sound);
     
-    // If alarm is enabled, reschedule with new sound
-    if (isEnabled && hasPermission) {
-      scheduleAlarm();
-    }
-    
     // Allow time for the sound selector to properly close before reopening the edit dialog
     setTimeout(() => {
       console.log("Reopening edit alarm dialog");
@@ -458,15 +660,41 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     }, 300);
   };
   
+  // Copy an audio file into app storage and select it
+  const handleImportSound = async () => {
+    setSoundError(null);
+    try {
+      const imported = await importCustomSoundAsync();
+      if (!imported) return;
+
+      setTempSound(toAlarmSound(imported));
+      // Open the trimmer straight away so the user can pick the segment
+      setTrimmingSoundId(imported.id);
+    } catch (error) {
+      console.error("Error importing sound:", error);
+      setSoundError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDeleteSound = async (soundId: string) => {
+    await stopAlarmSound();
+    try {
+      await deleteCustomSoundAsync(soundId);
+      setTrimmingSoundId(null);
+      if (tempSound.id === soundId) {
+        setTempSound(ALARM_SOUNDS[0]);
+      }
+    } catch (error) {
+      console.error("Error deleting sound:", error);
+      setSoundError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   // Preview the alarm sound briefly
-  const previewAlarmSound = async (sound: typeof ALARM_SOUNDS[0]) => {
+  const previewAlarmSound = async (sound: AlarmSound) => {
     try {
       // Stop any existing preview
-      if (alarmSound) {
-        await alarmSound.stopAsync();
-        await alarmSound.unloadAsync();
-        setAlarmSound(null);
-      }
+      await stopAlarmSound();
       
       // Skip preview for silent sound
       if (sound.id === 'silent') return;
@@ -481,22 +709,20 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       });
       
       // Play a short preview of the sound
-      const { sound: audioSound } = await Audio.Sound.createAsync(
-        sound.file,
+      const audioSound = await createAlarmSoundAsync(
+        sound,
         { 
           shouldPlay: true,
           volume: 0.5, // Lower volume for preview
         }
       );
       
-      setAlarmSound(audioSound);
+      alarmSound.current = audioSound;
       
       // Stop preview after 3 seconds
       setTimeout(async () => {
-        if (audioSound) {
-          await audioSound.stopAsync();
-          await audioSound.unloadAsync();
-          setAlarmSound(null);
+        if (alarmSound.current === audioSound) {
+          await stopAlarmSound();
         }
       }, 3000);
       
@@ -505,17 +731,87 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     }
   };
 
-  // Save changes from dialog
-  const saveChanges = () => {
-    setDate(tempDate);
+  // Save changes from dialog; saving always enables the alarm
+  const saveChanges = async () => {
+    let time = { hour: tempDate.getHours(), minute: tempDate.getMinutes() };
+    let repeat: AlarmRepeat = tempRepeat;
+    if (tempKind === "date") {
+      if (tempDate.getTime() <= Date.now()) {
+        setDialogError("Pick a date and time in the future");
+        return;
+      }
+      repeat = { type: "date", date: format(tempDate, "yyyy-MM-dd") };
+    } else if (tempKind === "timer") {
+      ({ repeat, ...time } = startTimer(tempNapMinutes));
+    }
+    // Dated alarms and naps ring on device time and never shift around the calendar
+    const isOneShot = tempKind !== "time";
+
+    const previous = editingAlarmId ? getAlarmById(editingAlarmId) : undefined;
+    const timeChanged =
+      !previous ||
+      previous.hour !== time.hour ||
+      previous.minute !== time.minute ||
+      previous.timeZone !== tempTimeZone;
+    const timeZone = isOneShot ? null : tempTimeZone;
+    const changes = {
+      ...time,
+      label: tempLabel.trim(),
+      soundId: tempSound.id,
+      ...tempSnooze,
+      timeZone,
+      smartWake: isOneShot ? { ...tempSmartWake, enabled: false } : tempSmartWake,
+      challenge: tempChallenge,
+      escalation: tempEscalation,
+      volumeRamp: tempVolumeRamp,
+      // A nap is too short for a bedtime reminder
+      bedtime: tempKind === "timer" ? { ...tempBedtime, enabled: false } : tempBedtime,
+      routine: tempRoutine,
+      // Any earlier shift was computed for the old settings
+      smartWakeAdjustment: undefined,
+      // Re-anchor "every N days" on the new time so the next occurrence isn't skipped
+      repeat:
+        repeat.type === "interval" && timeChanged
+          ? createIntervalRepeat({ ...time, timeZone }, repeat.everyDays)
+          : repeat,
+    };
     setDialogOpen(false);
 
-    // If alarm is enabled, reschedule with new time
-    if (isEnabled && hasPermission) {
-      scheduleAlarm();
+    let alarm: AlarmConfig;
+    if (editingAlarmId) {
+      updateAlarm(editingAlarmId, changes);
+      alarm = getAlarmById(editingAlarmId)!;
+    } else {
+      alarm = addAlarm({ ...changes, enabled: false });
+    }
+
+    // Reschedule with the new time and sound
+    await toggleAlarm(alarm, true);
+
+    // Shift the new time around tomorrow's calendar right away
+    const saved = getAlarmById(alarm.id);
+    if (saved) {
+      await refreshSmartWakeAsync(saved);
     }
   };
 
+  // Remove an alarm along with its notifications
+  const removeAlarmAsync = async (alarm: AlarmConfig) => {
+    await cancelAlarm(alarm);
+    await clearSnooze(alarm);
+    await stopEscalation(alarm.id);
+    removeAlarm(alarm.id);
+  };
+
+  // Delete the alarm being edited
+  const deleteAlarm = async () => {
+    const alarm = editingAlarmId ? getAlarmById(editingAlarmId) : undefined;
+    setDialogOpen(false);
+    if (!alarm) return;
+
+    await removeAlarmAsync(alarm);
+  };
+
   // Cancel dialog changes
   const cancelChanges = () => {
     setDialogOpen(false);
@@ -581,6 +877,83 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     }
   };
 
+  // Handle date change for alarms that ring on a specific day
+  const onDateChange = (event: any, selectedDate?: Date) => {
+    setDatePickerOpen(false);
+    if (selectedDate) {
+      // Keep the chosen time and only move the day
+      const currentDate = new Date(selectedDate);
+      currentDate.setHours(tempDate.getHours(), tempDate.getMinutes(), 0, 0);
+      setTempDate(currentDate);
+    }
+  };
+
+  const changeKind = (kind: AlarmKind) => {
+    setTempKind(kind);
+    setDialogError(null);
+    // Dated and nap schedules don't carry over to a plain alarm
+    if (kind === "time" && isSelfDeleting(tempRepeat)) {
+      setTempRepeat({ type: "once" });
+    }
+  };
+
+  // Snooze the alarm: silence it and ring again after the alarm's snooze length
+  const snoozeAlarm = async (alarm: AlarmConfig, snoozeCount: number, occurrence: Date) => {
+    if (!canSnooze(alarm, snoozeCount)) {
+      console.log(`Snooze limit reached for alarm ${alarm.id}`);
+      return;
+    }
+
+    await stopAlarmSound();
+    setAlarmAlertVisible(false);
+
+    try {
+      // The user responded, so the follow-up ladder for this morning can stop
+      await stopEscalation(alarm.id, new Date());
+      await clearSnooze(alarm);
+      const identifier = await alarmScheduler.scheduleSnooze(alarm, snoozeCount + 1, occurrence);
+      updateAlarm(alarm.id, { snoozeNotificationId: identifier });
+      recordAlarmSnoozed(alarm, occurrence, snoozeCount + 1);
+      console.log(`Alarm ${alarm.id} snoozed for ${alarm.snoozeMinutes} minutes (${snoozeCount + 1} so far)`);
+    } catch (error) {
+      console.error("Error snoozing alarm:", error);
+      setDebugInfo(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  // Cancel a pending snooze follow-up for the alarm
+  const clearSnooze = async (alarm: AlarmConfig) => {
+    try {
+      await alarmScheduler.cancelSnooze(alarm);
+      if (alarm.snoozeNotificationId) {
+        updateAlarm(alarm.id, { snoozeNotificationId: undefined });
+      }
+    } catch (error) {
+      console.error("Error canceling snooze:", error);
+    }
+  };
+
+  // Cancel the follow-up ladder up to `until` (every occurrence by default)
+  const stopEscalation = async (alarmId: string, until?: Date) => {
+    const alarm = getAlarmById(alarmId);
+    if (!alarm || alarm.escalations.length === 0) return;
+
+    try {
+      const escalations = await alarmScheduler.cancelEscalations(alarm, until);
+      updateAlarm(alarmId, { escalations });
+    } catch (error) {
+      console.error("Error canceling escalation:", error);
+    }
+  };
+
+  const handleSnoozeAlarm = () => {
+    if (activeAlarm) {
+      snoozeAlarm(getAlarmById(activeAlarm.id) ?? activeAlarm, activeSnoozeCount, activeOccurrence);
+    }
+  };
+
   // Handle alarm dismissal
   const handleDismissAlarm = () => {
     // Stop the alarm sound
@@ -588,96 +961,195 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
     
     // Hide the alarm alert
     setAlarmAlertVisible(false);
+    setActiveAlarm(null);
+
+    const alarm = activeAlarm ? getAlarmById(activeAlarm.id) : undefined;
+    if (alarm) {
+      clearSnooze(alarm);
+      stopEscalation(alarm.id, new Date());
+      recordAlarmDismissed(alarm, activeOccurrence, activeSnoozeCount);
+      // Dated alarms and naps are done once they've been dismissed
+      if (isSelfDeleting(alarm.repeat)) {
+        removeAlarmAsync(alarm);
+      }
+    }
     
-    // Trigger the StartMyDay flow after dismissal
-    onTrigger();
+    // Trigger the StartMyDay flow after dismissal, with this alarm's routine
+    onTrigger({ snoozeCount: activeSnoozeCount, routine: alarm?.routine });
   };
 
   return (
     <>
-      <Card className="p-6 mb-4">
+      {alarms.map((alarm) => (
+        <AlarmCard
+          key={alarm.id}
+          alarm={alarm}
+          onEdit={openEditDialog}
+          onToggle={toggleAlarm}
+          onSkip={skipNextOccurrence}
+        />
+      ))}
 
-        <Pressable
-          onPress={openEditDialog}
-          className="flex-row justify-between items-center rounded-lg"
-        >
-          <View className="flex-row items-center gap-3">
-            <Text className="text-3xl font-bold">{formattedTime}</Text>
-            <MoreHorizontal size={24} color="gray" />
-          </View>
-          <Switch
-            trackColor={{ false: "#767577", true: "#b4d1ec" }}
-            thumbColor={isEnabled ? "#0284c7" : "#f4f3f4"}
-            onValueChange={setIsEnabled}
-            value={isEnabled}
-          />
-        </Pressable>
+      <Button variant="outline" onPress={openAddDialog} className="mb-4 flex-row gap-2">
+        <Plus size={18} color={isDarkColorScheme ? "#e4e4e7" : "#71717a"} />
+        <Text>Add Alarm</Text>
+      </Button>
 
-        <View className="bg-primary-foreground/10 rounded-lg pt-2">
-          <Text
-            className={cn(
-              "text-md",
-              isEnabled ? "text-green-600 dark:text-green-400" : "text-gray-500"
-            )}
-          >
-            {isEnabled ? `Alarm set for ${formattedTime}` : "Alarm is disabled"}
-          </Text>
-        </View>
+      <DaysOffCard />
 
-        {/* Debug info */}
-        {/* {debugInfo && (
-          <View className="bg-secondary-foreground/10 rounded-lg p-2 mt-2">
-            <Text className="text-xs text-gray-500">{debugInfo}</Text>
-          </View>
-        )} */}
+      {/* Debug info */}
+      {/* {debugInfo && (
+        <View className="bg-secondary-foreground/10 rounded-lg p-2 mb-4">
+          <Text className="text-xs text-gray-500">{debugInfo}</Text>
+        </View>
+      )} */}
 
-        {!hasPermission && (
-          <Text className="text-xs text-red-500 mt-2">
-            Notification permissions not granted. Please enable notifications
-            for this app in your device settings.
-          </Text>
-        )}
-      </Card>
+      {!hasPermission && (
+        <Text className="text-xs text-red-500 mb-4">
+          Notification permissions not granted. Please enable notifications
+          for this app in your device settings.
+        </Text>
+      )}
 
       {/* Edit Alarm Dialog */}
       <Dialog isOpen={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <Text className="text-xl font-semibold">Edit Alarm</Text>
+            <Text className="text-xl font-semibold">
+              {editingAlarmId ? "Edit Alarm" : "Add Alarm"}
+            </Text>
           </DialogHeader>
 
-          <View className="items-center py-4">
-            <DateTimePicker
-              value={tempDate}
-              mode="time"
-              display={Platform.OS === "ios" ? "spinner" : "default"}
-              onChange={onTimeChange}
-              themeVariant={isDarkColorScheme ? "dark" : "light"}
-            />
-          </View>
+          <ScrollView className="max-h-[480px]">
+            <View className="flex-row justify-center gap-2">
+              {ALARM_KINDS.map(({ kind, label }) => (
+                <Chip
+                  key={kind}
+                  label={label}
+                  selected={tempKind === kind}
+                  onPress={() => changeKind(kind)}
+                />
+              ))}
+            </View>
 
-          <View className="mt-4">
-            <Pressable 
-              onPress={openSoundSelector}
-              className="flex-row justify-between items-center p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
-            >
-              <View className="flex-row items-center gap-2">
-                <Volume2 size={20} color={isDarkColorScheme ? "#e4e4e7" : "#71717a"} />
-                <Text className="text-sm">Alarm Sound</Text>
+            {tempKind === "date" && (
+              <View className="items-center pt-4">
+                {Platform.OS === "ios" ? (
+                  <DateTimePicker
+                    value={tempDate}
+                    mode="date"
+                    minimumDate={new Date()}
+                    onChange={onDateChange}
+                    themeVariant={isDarkColorScheme ? "dark" : "light"}
+                  />
+                ) : (
+                  <Button variant="outline" onPress={() => setDatePickerOpen(true)}>
+                    <Text>{format(tempDate, "EEE, MMM d, yyyy")}</Text>
+                  </Button>
+                )}
+                {datePickerOpen && (
+                  <DateTimePicker
+                    value={tempDate}
+                    mode="date"
+                    minimumDate={new Date()}
+                    onChange={onDateChange}
+                  />
+                )}
               </View>
-              <Text className="text-sm text-primary">{selectedAlarmSound.name}</Text>
-            </Pressable>
+            )}
+
+            {tempKind === "timer" ? (
+              <NapPicker minutes={tempNapMinutes} onChange={setTempNapMinutes} />
+            ) : (
+              <View className="items-center py-4">
+                <DateTimePicker
+                  value={tempDate}
+                  mode="time"
+                  display={Platform.OS === "ios" ? "spinner" : "default"}
+                  onChange={onTimeChange}
+                  themeVariant={isDarkColorScheme ? "dark" : "light"}
+                />
+              </View>
+            )}
+
+            {dialogError && (
+              <Text className="text-sm text-red-500">{dialogError}</Text>
+            )}
+
+            {tempKind === "time" && (
+              <>
+                <RepeatPicker
+                  value={tempRepeat}
+                  time={{ hour: tempDate.getHours(), minute: tempDate.getMinutes(), timeZone: tempTimeZone }}
+                  onChange={setTempRepeat}
+                />
+
+                <TimeZonePicker
+                  value={tempTimeZone}
+                  time={{ hour: tempDate.getHours(), minute: tempDate.getMinutes() }}
+                  onChange={setTempTimeZone}
+                />
+              </>
+            )}
+
+            <SnoozePicker
+              snoozeMinutes={tempSnooze.snoozeMinutes}
+              maxSnoozes={tempSnooze.maxSnoozes}
+              onChange={setTempSnooze}
+            />
+
+            {tempKind === "time" && (
+              <SmartWakePicker value={tempSmartWake} onChange={setTempSmartWake} />
+            )}
+
+            <ChallengePicker value={tempChallenge} onChange={setTempChallenge} />
+
+            <TextInput
+              value={tempLabel}
+              onChangeText={setTempLabel}
+              placeholder="Label (e.g. Weekday)"
+              placeholderTextColor="#a1a1aa"
+              className="mt-4 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground"
+            />
+
+            <View className="mt-4">
+              <Pressable 
+                onPress={openSoundSelector}
+                className="flex-row justify-between items-center p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+              >
+                <View className="flex-row items-center gap-2">
+                  <Volume2 size={20} color={isDarkColorScheme ? "#e4e4e7" : "#71717a"} />
+                  <Text className="text-sm">Alarm Sound</Text>
+                </View>
+                <Text className="text-sm text-primary">{tempSound.name}</Text>
+              </Pressable>
             
-            <Text className="text-sm text-gray-500 mt-2">
-              When this alarm goes off, a sound will play until you dismiss it.
-            </Text>
-          </View>
+              <Text className="text-sm text-gray-500 mt-2">
+                When this alarm goes off, a sound will play until you dismiss it.
+              </Text>
+            </View>
+
+            <VolumeRampPicker value={tempVolumeRamp} onChange={setTempVolumeRamp} />
+
+            <EscalationPicker value={tempEscalation} onChange={setTempEscalation} />
+
+            {tempKind !== "timer" && (
+              <BedtimePicker value={tempBedtime} onChange={setTempBedtime} />
+            )}
+
+            <RoutinePicker value={tempRoutine} onChange={setTempRoutine} />
+          </ScrollView>
 
           <DialogFooter>
+            {editingAlarmId && (
+              <Button variant="destructive" onPress={deleteAlarm} className="mr-auto">
+                <Text>Delete</Text>
+              </Button>
+            )}
             <Button variant="outline" onPress={cancelChanges} className="mr-2">
               <Text>Cancel</Text>
             </Button>
-            <Button onPress={()=>{saveChanges(); setIsEnabled(true);}}>
+            <Button onPress={saveChanges}>
               <Text>Save</Text>
             </Button>
           </DialogFooter>
@@ -720,31 +1192,58 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
                   </Pressable>
                 </View>
                 
-                <ScrollView className="max-h-64">
-                  {ALARM_SOUNDS.map((sound) => (
-                    <Pressable
-                      key={sound.id}
-                      onPress={() => handleSelectSound(sound)}
-                      className={cn(
-                        "flex-row justify-between items-center p-4 border-b border-gray-200 dark:border-gray-800",
-                        selectedAlarmSound.id === sound.id ? "bg-primary-foreground/10" : ""
-                      )}
-                    >
-                      <Text className={cn(
-                        "text-base",
-                        selectedAlarmSound.id === sound.id ? "font-bold text-primary" : ""
-                      )}>
-                        {sound.name}
-                      </Text>
-                      
-                      {selectedAlarmSound.id === sound.id && (
-                        <View className="w-3 h-3 rounded-full bg-primary" />
-                      )}
-                    </Pressable>
+                <ScrollView className="max-h-96">
+                  {[...ALARM_SOUNDS, ...customSounds.map(toAlarmSound)].map((sound) => (
+                    <View key={sound.id}>
+                      <Pressable
+                        onPress={() => handleSelectSound(sound)}
+                        className={cn(
+                          "flex-row justify-between items-center p-4 border-b border-gray-200 dark:border-gray-800",
+                          tempSound.id === sound.id ? "bg-primary-foreground/10" : ""
+                        )}
+                      >
+                        <Text className={cn(
+                          "text-base flex-1",
+                          tempSound.id === sound.id ? "font-bold text-primary" : ""
+                        )}>
+                          {sound.name}
+                        </Text>
+
+                        {sound.custom && (
+                          <Pressable
+                            onPress={() => setTrimmingSoundId(trimmingSoundId === sound.id ? null : sound.id)}
+                            className="mr-3"
+                          >
+                            <Text className="text-primary">Trim</Text>
+                          </Pressable>
+                        )}
+                        
+                        {tempSound.id === sound.id && (
+                          <View className="w-3 h-3 rounded-full bg-primary" />
+                        )}
+                      </Pressable>
+
+                      {trimmingSoundId === sound.id &&
+                        customSounds
+                          .filter((custom) => custom.id === sound.id)
+                          .map((custom) => (
+                            <SoundTrimmer
+                              key={custom.id}
+                              sound={custom}
+                              onPreview={() => previewAlarmSound(toAlarmSound(custom))}
+                              onDelete={() => handleDeleteSound(custom.id)}
+                            />
+                          ))}
+                    </View>
                   ))}
                 </ScrollView>
+
+                {soundError && <Text className="text-red-600 mt-2">{soundError}</Text>}
                 
-                <View className="mt-4 flex-row justify-end">
+                <View className="mt-4 flex-row justify-between">
+                  <Button variant="outline" onPress={handleImportSound}>
+                    <Text>Import sound</Text>
+                  </Button>
                   <Button variant="outline" onPress={() => setSoundSelectorOpen(false)}>
                     <Text>Cancel</Text>
                   </Button>
@@ -756,28 +1255,13 @@ const Alarm = ({ onTrigger }: AlarmProps) => {
       </Modal>
 
       {/* Full-screen Alarm Alert */}
-      <Modal
+      <AlarmAlert
         visible={alarmAlertVisible}
-        transparent={false}
-        animationType="fade"
-        onRequestClose={() => {}} // Prevent back button from closing
-      >
-        <View style={StyleSheet.absoluteFill} className="bg-background flex items-center justify-between p-8">
-          <View className="flex-1 justify-center items-center">
-            <Text className="text-4xl font-bold mb-6 text-center">Alarm</Text>
-            <Text className="text-5xl font-bold text-primary text-center">{formattedTime}</Text>
-            <Text className="text-xl text-gray-500 mt-4 text-center">{selectedAlarmSound.name}</Text>
-          </View>
-          
-          <Button 
-            size="lg" 
-            className="w-full mb-12" 
-            onPress={handleDismissAlarm}
-          >
-            <Text className="text-xl font-bold">Dismiss</Text>
-          </Button>
-        </View>
-      </Modal>
+        alarm={activeAlarm}
+        snoozeCount={activeSnoozeCount}
+        onSnooze={handleSnoozeAlarm}
+        onDismiss={handleDismissAlarm}
+      />
     </>
   );
 };
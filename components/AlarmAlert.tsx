@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from "react";
+import { View, Modal, StyleSheet, KeyboardAvoidingView, Platform } from "react-native";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import DismissChallenge from "~/components/DismissChallenge";
+import { AlarmConfig, canSnooze, formatAlarmTime } from "~/lib/alarms";
+import { ALARM_SOUNDS, getAlarmSound } from "~/lib/sounds";
+
+interface AlarmAlertProps {
+  visible: boolean;
+  alarm: AlarmConfig | null;
+  snoozeCount: number;
+  onSnooze: () => void;
+  onDismiss: () => void;
+}
+
+// Full-screen alert shown while an alarm is ringing
+const AlarmAlert = ({ visible, alarm, snoozeCount, onSnooze, onDismiss }: AlarmAlertProps) => {
+  const challengeType = alarm?.challenge.type ?? "none";
+  const [challengeDone, setChallengeDone] = useState(challengeType === "none");
+
+  // Every time the alarm rings the challenge starts over
+  useEffect(() => {
+    if (visible) {
+      setChallengeDone(challengeType === "none");
+    }
+  }, [visible, alarm?.id, snoozeCount]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={false}
+      animationType="fade"
+      onRequestClose={() => {}} // Prevent back button from closing
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        style={StyleSheet.absoluteFill}
+        className="bg-background flex items-center justify-between p-8"
+      >
+        <View className="flex-1 justify-center items-center w-full">
+          <Text className="text-4xl font-bold mb-6 text-center">
+            {alarm?.label || "Alarm"}
+          </Text>
+          {alarm && (
+            <Text className="text-5xl font-bold text-primary text-center">
+              {formatAlarmTime(alarm)}
+            </Text>
+          )}
+          <Text className="text-xl text-gray-500 mt-4 text-center">
+            {getAlarmSound(alarm?.soundId ?? ALARM_SOUNDS[0].id).name}
+          </Text>
+          {snoozeCount > 0 && (
+            <Text className="text-base text-gray-500 mt-2 text-center">
+              Snoozed {snoozeCount} {snoozeCount === 1 ? "time" : "times"}
+            </Text>
+          )}
+
+          {alarm && visible && !challengeDone && (
+            <View className="w-full mt-8">
+              <DismissChallenge
+                key={`${alarm.id}-${snoozeCount}`}
+                settings={alarm.challenge}
+                onComplete={() => setChallengeDone(true)}
+              />
+            </View>
+          )}
+        </View>
+
+        {alarm && canSnooze(alarm, snoozeCount) ? (
+          <Button
+            size="lg"
+            variant="outline"
+            className="w-full mb-4"
+            onPress={onSnooze}
+          >
+            <Text className="text-xl font-bold">
+              Snooze ({alarm.snoozeMinutes} min)
+            </Text>
+          </Button>
+        ) : alarm ? (
+          <Text className="text-sm text-gray-500 mb-4 text-center">
+            Snooze limit reached
+          </Text>
+        ) : null}
+
+        <Button
+          size="lg"
+          className="w-full mb-12"
+          onPress={onDismiss}
+          disabled={!challengeDone}
+        >
+          <Text className="text-xl font-bold">
+            {challengeDone ? "Dismiss" : "Complete the challenge to dismiss"}
+          </Text>
+        </Button>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+export default AlarmAlert;
@@ -0,0 +1,110 @@
+import React from "react";
+import { View, Switch, Pressable } from "react-native";
+import { format } from "date-fns";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import { cn } from "~/lib/utils";
+import { MoreHorizontal } from "lucide-react-native";
+import {
+  AlarmConfig,
+  formatAlarmTime,
+  formatRepeat,
+  getActiveAdjustment,
+  getNextActiveOccurrence,
+  getNextTriggerDate,
+  getScheduledTriggerDate,
+  isRepeating,
+} from "~/lib/alarms";
+import { useAlarmStore } from "~/lib/alarmStore";
+import { getBedtime } from "~/lib/bedtime";
+import { describeSmartWake } from "~/lib/smartWake";
+import { formatDeviceTime, formatTimeZone, getDeviceTimeZone } from "~/lib/timeZone";
+
+interface AlarmCardProps {
+  alarm: AlarmConfig;
+  onEdit: (alarm: AlarmConfig) => void;
+  onToggle: (alarm: AlarmConfig, enabled: boolean) => void;
+  onSkip: (alarm: AlarmConfig, skip: boolean) => void;
+}
+
+const AlarmCard = ({ alarm, onEdit, onToggle, onSkip }: AlarmCardProps) => {
+  const vacation = useAlarmStore((state) => state.vacation);
+  const holidays = useAlarmStore((state) => state.holidays);
+  const skips = { vacation, holidays };
+  const now = new Date();
+  const formattedTime = formatAlarmTime(alarm);
+  const nextOccurrence = getNextActiveOccurrence(alarm, now, skips);
+  // Vacation, holidays or "Skip next" push the alarm past its usual next day
+  const isSkipping = nextOccurrence.getTime() !== getNextTriggerDate(alarm, now).getTime();
+  const hasSkippedNext =
+    alarm.skippedOccurrence !== undefined && new Date(alarm.skippedOccurrence).getTime() > now.getTime();
+  const adjustment = getActiveAdjustment(alarm, nextOccurrence);
+  // Home time zone alarms also show when they ring where the phone is now
+  const isAway = alarm.timeZone !== null && alarm.timeZone !== getDeviceTimeZone();
+
+  return (
+    <Card className="p-6 mb-4">
+      <Pressable
+        onPress={() => onEdit(alarm)}
+        className="flex-row justify-between items-center rounded-lg"
+      >
+        <View className="flex-row items-center gap-3">
+          <Text className="text-3xl font-bold">{formattedTime}</Text>
+          <MoreHorizontal size={24} color="gray" />
+        </View>
+        <Switch
+          trackColor={{ false: "#767577", true: "#b4d1ec" }}
+          thumbColor={alarm.enabled ? "#0284c7" : "#f4f3f4"}
+          onValueChange={(value) => onToggle(alarm, value)}
+          value={alarm.enabled}
+        />
+      </Pressable>
+
+      <View className="flex-row items-center gap-2 mt-1">
+        {alarm.label ? (
+          <Text className="text-base font-medium">{alarm.label}</Text>
+        ) : null}
+        <Text className="text-sm text-gray-500">{formatRepeat(alarm.repeat)}</Text>
+        {alarm.timeZone && (
+          <Text className="text-sm text-gray-500">{formatTimeZone(alarm.timeZone)} time</Text>
+        )}
+      </View>
+
+      <View className="bg-primary-foreground/10 rounded-lg pt-2">
+        <Text
+          className={cn(
+            "text-md",
+            alarm.enabled ? "text-green-600 dark:text-green-400" : "text-gray-500"
+          )}
+        >
+          {alarm.enabled
+            ? `Alarm set for ${formattedTime}${isAway ? ` (${formatDeviceTime(nextOccurrence)} here)` : ""}`
+            : "Alarm is disabled"}
+        </Text>
+        {alarm.enabled && adjustment && (
+          <Text className="text-sm text-amber-600 dark:text-amber-400 mt-1">
+            {describeSmartWake(adjustment)}
+          </Text>
+        )}
+        {alarm.enabled && alarm.bedtime.enabled && (
+          <Text className="text-sm text-gray-500 mt-1">
+            Go to bed by {formatDeviceTime(getBedtime(alarm.bedtime, getScheduledTriggerDate(alarm, now, skips)))}
+          </Text>
+        )}
+        {alarm.enabled && isRepeating(alarm.repeat) && (
+          <View className="flex-row justify-between items-center mt-2">
+            <Text className="text-sm text-gray-500">
+              {isSkipping ? "Skipping until" : "Next"} {format(nextOccurrence, "EEE, MMM d")}
+            </Text>
+            <Button variant="outline" size="sm" onPress={() => onSkip(alarm, !hasSkippedNext)}>
+              <Text>{hasSkippedNext ? "Undo skip" : "Skip next"}</Text>
+            </Button>
+          </View>
+        )}
+      </View>
+    </Card>
+  );
+};
+
+export default AlarmCard;
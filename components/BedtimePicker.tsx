@@ -0,0 +1,63 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { BedtimeSettings, formatBedtime, formatSleepGoal } from "~/lib/bedtime";
+
+const SLEEP_GOALS = [6 * 60, 7 * 60, 7 * 60 + 30, 8 * 60, 9 * 60];
+const BUFFERS = [15, 30, 60];
+
+interface BedtimePickerProps {
+  value: BedtimeSettings;
+  onChange: (value: BedtimeSettings) => void;
+}
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <View className="flex-row flex-wrap items-center gap-2 mt-2">
+    <Text className="text-sm text-gray-500 w-20">{label}</Text>
+    {children}
+  </View>
+);
+
+// Sleep goal for the alarm, with a reminder to wind down before bedtime
+const BedtimePicker = ({ value, onChange }: BedtimePickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center">
+      <Text className="text-sm">Bedtime reminder</Text>
+      <Switch
+        trackColor={{ false: "#767577", true: "#b4d1ec" }}
+        thumbColor={value.enabled ? "#0284c7" : "#f4f3f4"}
+        onValueChange={(enabled) => onChange({ ...value, enabled })}
+        value={value.enabled}
+      />
+    </View>
+
+    {value.enabled && (
+      <>
+        <Text className="text-sm text-gray-500">{formatBedtime(value)}</Text>
+        <Row label="Sleep goal">
+          {SLEEP_GOALS.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={formatSleepGoal(minutes)}
+              selected={value.sleepMinutes === minutes}
+              onPress={() => onChange({ ...value, sleepMinutes: minutes })}
+            />
+          ))}
+        </Row>
+        <Row label="Remind me">
+          {BUFFERS.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={`${minutes} min`}
+              selected={value.bufferMinutes === minutes}
+              onPress={() => onChange({ ...value, bufferMinutes: minutes })}
+            />
+          ))}
+        </Row>
+      </>
+    )}
+  </View>
+);
+
+export default BedtimePicker;
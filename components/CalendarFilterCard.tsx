@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import { View, Switch, TextInput } from "react-native";
+import * as Calendar from "expo-calendar";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import { useBriefingStore } from "~/lib/briefingStore";
+import { parseKeywords } from "~/lib/daysOff";
+
+interface RuleRowProps {
+  label: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+const RuleRow = ({ label, value, onChange }: RuleRowProps) => (
+  <View className="flex-row justify-between items-center mt-2">
+    <Text className="text-sm">{label}</Text>
+    <Switch
+      trackColor={{ false: "#767577", true: "#b4d1ec" }}
+      thumbColor={value ? "#0284c7" : "#f4f3f4"}
+      onValueChange={onChange}
+      value={value}
+    />
+  </View>
+);
+
+// Device calendars to read for the briefing, and events to leave out of it
+const CalendarFilterCard = () => {
+  const filters = useBriefingStore((state) => state.filters);
+  const setFilters = useBriefingStore((state) => state.setFilters);
+  const [calendars, setCalendars] = useState<Calendar.Calendar[] | null>(null);
+  const [keywords, setKeywords] = useState(filters.titleKeywords.join(", "));
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCalendarsAsync = async (askPermission: boolean) => {
+    setError(null);
+    try {
+      const { status } = askPermission
+        ? await Calendar.requestCalendarPermissionsAsync()
+        : await Calendar.getCalendarPermissionsAsync();
+      if (status !== "granted") {
+        if (askPermission) setError("Calendar permission is required");
+        return;
+      }
+      const all = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+      setCalendars([...all].sort((a, b) => a.title.localeCompare(b.title)));
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  useEffect(() => {
+    loadCalendarsAsync(false);
+  }, []);
+
+  const toggleCalendar = (id: string, included: boolean) => {
+    const excluded = filters.excludedCalendarIds.filter((excludedId) => excludedId !== id);
+    setFilters({ excludedCalendarIds: included ? excluded : [...excluded, id] });
+  };
+
+  return (
+    <Card className="p-6 mb-4">
+      <Text className="text-xl font-semibold">Calendars</Text>
+      <Text className="text-sm text-gray-500 mb-2">Events from these calendars are read out in the briefing.</Text>
+
+      {calendars === null ? (
+        <Button variant="outline" onPress={() => loadCalendarsAsync(true)}>
+          <Text>Allow calendar access</Text>
+        </Button>
+      ) : (
+        calendars.map((calendar) => (
+          <View key={calendar.id} className="flex-row items-center mt-2">
+            <View className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: calendar.color }} />
+            <View className="flex-1 mr-2">
+              <Text className="text-sm">{calendar.title}</Text>
+              {calendar.source?.name ? (
+                <Text className="text-xs text-gray-500">{calendar.source.name}</Text>
+              ) : null}
+            </View>
+            <Switch
+              trackColor={{ false: "#767577", true: "#b4d1ec" }}
+              thumbColor={!filters.excludedCalendarIds.includes(calendar.id) ? "#0284c7" : "#f4f3f4"}
+              onValueChange={(included) => toggleCalendar(calendar.id, included)}
+              value={!filters.excludedCalendarIds.includes(calendar.id)}
+            />
+          </View>
+        ))
+      )}
+
+      <Text className="text-base font-medium mt-4">Leave out</Text>
+      <RuleRow
+        label="Events I declined"
+        value={filters.skipDeclined}
+        onChange={(skipDeclined) => setFilters({ skipDeclined })}
+      />
+      <RuleRow
+        label="All-day events"
+        value={filters.skipAllDay}
+        onChange={(skipAllDay) => setFilters({ skipAllDay })}
+      />
+      <TextInput
+        value={keywords}
+        onChangeText={setKeywords}
+        onEndEditing={() => setFilters({ titleKeywords: parseKeywords(keywords) })}
+        placeholder="Lunch, Focus time"
+        placeholderTextColor="#a1a1aa"
+        autoCapitalize="none"
+        className="mt-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground"
+      />
+      <Text className="text-sm text-gray-500 mt-2">Events with these words in the title are left out.</Text>
+      {error && <Text className="text-sm text-red-500 mt-2">{error}</Text>}
+    </Card>
+  );
+};
+
+export default CalendarFilterCard;
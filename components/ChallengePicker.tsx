@@ -0,0 +1,51 @@
+import React from "react";
+import { View } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import {
+  CHALLENGE_DIFFICULTIES,
+  CHALLENGE_TYPES,
+  DismissChallengeSettings,
+  formatChallenge,
+} from "~/lib/challenges";
+
+interface ChallengePickerProps {
+  value: DismissChallengeSettings;
+  onChange: (value: DismissChallengeSettings) => void;
+}
+
+// Choose what has to be done before the alarm can be dismissed
+const ChallengePicker = ({ value, onChange }: ChallengePickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center mb-2">
+      <Text className="text-sm">Dismiss challenge</Text>
+      <Text className="text-sm text-primary">{formatChallenge(value)}</Text>
+    </View>
+
+    <View className="flex-row gap-2">
+      {CHALLENGE_TYPES.map(({ type, name }) => (
+        <Chip
+          key={type}
+          label={name}
+          selected={value.type === type}
+          onPress={() => onChange({ ...value, type })}
+        />
+      ))}
+    </View>
+
+    {value.type !== "none" && (
+      <View className="flex-row gap-2 mt-2">
+        {CHALLENGE_DIFFICULTIES.map((difficulty) => (
+          <Chip
+            key={difficulty}
+            label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+            selected={value.difficulty === difficulty}
+            onPress={() => onChange({ ...value, difficulty })}
+          />
+        ))}
+      </View>
+    )}
+  </View>
+);
+
+export default ChallengePicker;
@@ -0,0 +1,29 @@
+import React from "react";
+import { Pressable } from "react-native";
+import { Text } from "~/components/ui/text";
+import { cn } from "~/lib/utils";
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  className?: string;
+}
+
+// Small rounded toggle used by the alarm settings pickers
+const Chip = ({ label, selected, onPress, className }: ChipProps) => (
+  <Pressable
+    onPress={onPress}
+    className={cn(
+      "items-center justify-center rounded-full border px-3 py-1.5",
+      selected ? "bg-primary border-primary" : "border-gray-200 dark:border-gray-700",
+      className
+    )}
+  >
+    <Text className={cn("text-sm", selected ? "text-primary-foreground font-semibold" : "")}>
+      {label}
+    </Text>
+  </Pressable>
+);
+
+export default Chip;
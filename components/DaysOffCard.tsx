@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { View, Switch, Platform, TextInput } from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import * as Calendar from "expo-calendar";
+import { addDays, format, parseISO } from "date-fns";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import { useColorScheme } from "~/lib/useColorScheme";
+import { useAlarmStore } from "~/lib/alarmStore";
+import { parseKeywords, setHolidaySettingsAsync, setVacationAsync } from "~/lib/daysOff";
+
+interface DateFieldProps {
+  label: string;
+  value: string;
+  minimumDate?: Date;
+  onChange: (value: string) => void;
+}
+
+// A yyyy-MM-dd day, picked inline on iOS and from a dialog on Android
+const DateField = ({ label, value, minimumDate, onChange }: DateFieldProps) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const handleChange = (event: any, selectedDate?: Date) => {
+    setPickerOpen(false);
+    if (selectedDate) {
+      onChange(format(selectedDate, "yyyy-MM-dd"));
+    }
+  };
+
+  return (
+    <View className="flex-row justify-between items-center mt-2">
+      <Text className="text-sm text-gray-500">{label}</Text>
+      {Platform.OS === "ios" ? (
+        <DateTimePicker
+          value={parseISO(value)}
+          mode="date"
+          minimumDate={minimumDate}
+          onChange={handleChange}
+          themeVariant={isDarkColorScheme ? "dark" : "light"}
+        />
+      ) : (
+        <Button variant="outline" size="sm" onPress={() => setPickerOpen(true)}>
+          <Text>{format(parseISO(value), "EEE, MMM d")}</Text>
+        </Button>
+      )}
+      {pickerOpen && (
+        <DateTimePicker value={parseISO(value)} mode="date" minimumDate={minimumDate} onChange={handleChange} />
+      )}
+    </View>
+  );
+};
+
+// Vacation mode and calendar holidays, during which recurring alarms stay quiet
+const DaysOffCard = () => {
+  const vacation = useAlarmStore((state) => state.vacation);
+  const holidaySettings = useAlarmStore((state) => state.holidaySettings);
+  const holidays = useAlarmStore((state) => state.holidays);
+  const [keywords, setKeywords] = useState(holidaySettings.keywords.join(", "));
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleVacation = (enabled: boolean) => {
+    const today = new Date();
+    setVacationAsync(
+      enabled
+        ? { start: format(today, "yyyy-MM-dd"), end: format(addDays(today, 6), "yyyy-MM-dd") }
+        : null
+    );
+  };
+
+  const changeVacation = (start: string, end: string) => {
+    // Keep the range the right way round
+    setVacationAsync({ start, end: end < start ? start : end });
+  };
+
+  const toggleHolidays = async (enabled: boolean) => {
+    setError(null);
+    if (enabled) {
+      const { status } = await Calendar.requestCalendarPermissionsAsync();
+      if (status !== "granted") {
+        setError("Calendar permission is required");
+        return;
+      }
+    }
+    try {
+      await setHolidaySettingsAsync({ ...holidaySettings, enabled });
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const saveKeywords = () => {
+    setHolidaySettingsAsync({ ...holidaySettings, keywords: parseKeywords(keywords) });
+  };
+
+  return (
+    <Card className="p-6 mb-4">
+      <View className="flex-row justify-between items-center">
+        <Text className="text-base font-medium">Vacation mode</Text>
+        <Switch
+          trackColor={{ false: "#767577", true: "#b4d1ec" }}
+          thumbColor={vacation ? "#0284c7" : "#f4f3f4"}
+          onValueChange={toggleVacation}
+          value={vacation !== null}
+        />
+      </View>
+      {vacation && (
+        <>
+          <DateField
+            label="From"
+            value={vacation.start}
+            onChange={(start) => changeVacation(start, vacation.end)}
+          />
+          <DateField
+            label="Until"
+            value={vacation.end}
+            minimumDate={parseISO(vacation.start)}
+            onChange={(end) => changeVacation(vacation.start, end)}
+          />
+          <Text className="text-sm text-gray-500 mt-2">
+            Repeating alarms won't ring on these days.
+          </Text>
+        </>
+      )}
+
+      <View className="flex-row justify-between items-center mt-4">
+        <Text className="text-base font-medium">Skip holidays</Text>
+        <Switch
+          trackColor={{ false: "#767577", true: "#b4d1ec" }}
+          thumbColor={holidaySettings.enabled ? "#0284c7" : "#f4f3f4"}
+          onValueChange={toggleHolidays}
+          value={holidaySettings.enabled}
+        />
+      </View>
+      {holidaySettings.enabled && (
+        <>
+          <TextInput
+            value={keywords}
+            onChangeText={setKeywords}
+            onEndEditing={saveKeywords}
+            placeholder="Holiday, OOO"
+            placeholderTextColor="#a1a1aa"
+            autoCapitalize="none"
+            className="mt-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground"
+          />
+          <Text className="text-sm text-gray-500 mt-2">
+            {holidays.length > 0
+              ? `Skipping ${holidays.map((day) => format(parseISO(day), "EEE, MMM d")).join(", ")}`
+              : "All-day events with these words in the title are skipped."}
+          </Text>
+        </>
+      )}
+      {error && <Text className="text-sm text-red-500 mt-2">{error}</Text>}
+    </Card>
+  );
+};
+
+export default DaysOffCard;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from "react";
+import { View, TextInput } from "react-native";
+import { Accelerometer } from "expo-sensors";
+import { Text } from "~/components/ui/text";
+import { Progress } from "~/components/ui/progress";
+import {
+  DismissChallengeSettings,
+  MathProblem,
+  SHAKE_COUNTS,
+  SHAKE_THRESHOLD,
+  createMathProblems,
+  matchesPhrase,
+  pickPhrase,
+} from "~/lib/challenges";
+
+interface DismissChallengeProps {
+  settings: DismissChallengeSettings;
+  onComplete: () => void;
+}
+
+const inputClassName =
+  "w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground text-xl text-center";
+
+const MathChallenge = ({ settings, onComplete }: DismissChallengeProps) => {
+  const [problems] = useState<MathProblem[]>(() => createMathProblems(settings.difficulty));
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState("");
+
+  const handleChange = (text: string) => {
+    setAnswer(text);
+    if (Number(text) !== problems[index].answer) return;
+
+    // Correct answer: move on to the next problem
+    setAnswer("");
+    if (index + 1 >= problems.length) {
+      onComplete();
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  return (
+    <View className="w-full items-center">
+      <Text className="text-sm text-gray-500 mb-2">
+        Problem {Math.min(index + 1, problems.length)} of {problems.length}
+      </Text>
+      <Text className="text-3xl font-bold mb-4">{problems[index].question} = ?</Text>
+      <TextInput
+        value={answer}
+        onChangeText={handleChange}
+        keyboardType="number-pad"
+        autoFocus
+        className={inputClassName}
+      />
+    </View>
+  );
+};
+
+const TypingChallenge = ({ settings, onComplete }: DismissChallengeProps) => {
+  const [phrase] = useState(() => pickPhrase(settings.difficulty));
+  const [input, setInput] = useState("");
+
+  const handleChange = (text: string) => {
+    setInput(text);
+    if (matchesPhrase(text, phrase)) {
+      onComplete();
+    }
+  };
+
+  return (
+    <View className="w-full items-center">
+      <Text className="text-sm text-gray-500 mb-2">Type this phrase</Text>
+      <Text className="text-xl font-semibold mb-4 text-center">“{phrase}”</Text>
+      <TextInput
+        value={input}
+        onChangeText={handleChange}
+        autoCorrect={false}
+        autoCapitalize="none"
+        autoFocus
+        className={inputClassName}
+      />
+    </View>
+  );
+};
+
+const ShakeChallenge = ({ settings, onComplete }: DismissChallengeProps) => {
+  const target = SHAKE_COUNTS[settings.difficulty];
+  const [count, setCount] = useState(0);
+  const lastShakeAt = useRef(0);
+
+  useEffect(() => {
+    Accelerometer.setUpdateInterval(100);
+    const subscription = Accelerometer.addListener(({ x, y, z }) => {
+      const force = Math.sqrt(x * x + y * y + z * z);
+      const now = Date.now();
+      // Debounce so one vigorous shake isn't counted several times
+      if (force > SHAKE_THRESHOLD && now - lastShakeAt.current > 300) {
+        lastShakeAt.current = now;
+        setCount((current) => current + 1);
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (count >= target) {
+      onComplete();
+    }
+  }, [count]);
+
+  return (
+    <View className="w-full items-center">
+      <Text className="text-xl font-semibold mb-4">Shake your phone</Text>
+      <Text className="text-3xl font-bold mb-4">
+        {Math.min(count, target)} / {target}
+      </Text>
+      <Progress value={(Math.min(count, target) / target) * 100} className="w-full" />
+    </View>
+  );
+};
+
+// Task the user has to finish before the alarm can be dismissed
+const DismissChallenge = (props: DismissChallengeProps) => {
+  switch (props.settings.type) {
+    case "math":
+      return <MathChallenge {...props} />;
+    case "typing":
+      return <TypingChallenge {...props} />;
+    case "shake":
+      return <ShakeChallenge {...props} />;
+    default:
+      return null;
+  }
+};
+
+export default DismissChallenge;
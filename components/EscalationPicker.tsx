@@ -0,0 +1,74 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { EscalationSettings, formatEscalation } from "~/lib/escalation";
+
+const INTERVALS = [1, 2, 5];
+const STEPS = [2, 3, 5];
+const MISSED_AFTER = [10, 15, 30];
+
+interface EscalationPickerProps {
+  value: EscalationSettings;
+  onChange: (value: EscalationSettings) => void;
+}
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <View className="flex-row items-center gap-2 mt-2">
+    <Text className="text-sm text-gray-500 w-20">{label}</Text>
+    {children}
+  </View>
+);
+
+// Follow-up notifications with harsher sounds when the alarm isn't dismissed
+const EscalationPicker = ({ value, onChange }: EscalationPickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center">
+      <Text className="text-sm">Escalate if not dismissed</Text>
+      <Switch
+        trackColor={{ false: "#767577", true: "#b4d1ec" }}
+        thumbColor={value.enabled ? "#0284c7" : "#f4f3f4"}
+        onValueChange={(enabled) => onChange({ ...value, enabled })}
+        value={value.enabled}
+      />
+    </View>
+
+    {value.enabled && (
+      <>
+        <Text className="text-sm text-gray-500">{formatEscalation(value)}</Text>
+        <Row label="Every">
+          {INTERVALS.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={`${minutes} min`}
+              selected={value.intervalMinutes === minutes}
+              onPress={() => onChange({ ...value, intervalMinutes: minutes })}
+            />
+          ))}
+        </Row>
+        <Row label="Follow-ups">
+          {STEPS.map((steps) => (
+            <Chip
+              key={steps}
+              label={`${steps}`}
+              selected={value.maxSteps === steps}
+              onPress={() => onChange({ ...value, maxSteps: steps })}
+            />
+          ))}
+        </Row>
+        <Row label="Missed after">
+          {MISSED_AFTER.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={`${minutes} min`}
+              selected={value.missedAfterMinutes === minutes}
+              onPress={() => onChange({ ...value, missedAfterMinutes: minutes })}
+            />
+          ))}
+        </Row>
+      </>
+    )}
+  </View>
+);
+
+export default EscalationPicker;
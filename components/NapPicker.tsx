@@ -0,0 +1,38 @@
+import React from "react";
+import { View } from "react-native";
+import { format, addMinutes } from "date-fns";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { NAP_MINUTES } from "~/lib/alarms";
+
+interface NapPickerProps {
+  minutes: number;
+  onChange: (minutes: number) => void;
+}
+
+// "Wake me in N minutes": the countdown starts when the nap is saved
+const NapPicker = ({ minutes, onChange }: NapPickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center mb-2">
+      <Text className="text-sm">Wake me in</Text>
+      <Text className="text-sm text-primary">{minutes} min</Text>
+    </View>
+
+    <View className="flex-row flex-wrap gap-2">
+      {NAP_MINUTES.map((option) => (
+        <Chip
+          key={option}
+          label={`${option}`}
+          selected={minutes === option}
+          onPress={() => onChange(option)}
+        />
+      ))}
+    </View>
+
+    <Text className="text-sm text-gray-500 mt-2">
+      Rings at {format(addMinutes(new Date(), minutes), "h:mm a")}, then removes itself.
+    </Text>
+  </View>
+);
+
+export default NapPicker;
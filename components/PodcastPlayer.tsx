@@ -1,224 +1,195 @@
 import React, { useState, useEffect } from 'react';
-import { View, ActivityIndicator } from 'react-native';
+import { View, ActivityIndicator, Image } from 'react-native';
+import { Link } from 'expo-router';
 import { Button } from "~/components/ui/button";
 import { Text } from "~/components/ui/text";
-import { Audio, AVPlaybackStatus } from 'expo-av';
 import { Card } from '~/components/ui/card';
-import * as rssParser from 'react-native-rss-parser';
+import { Progress } from '~/components/ui/progress';
+import Chip from '~/components/Chip';
+import { PodcastEpisode } from '~/lib/podcast';
+import { downloadEpisodeAsync, findDownload } from '~/lib/podcastDownloads';
+import { formatBudget, formatDuration, getRemainingMs, planQueue } from '~/lib/podcastQueue';
+import { usePodcastStore } from '~/lib/podcastStore';
+import { getRoutineEpisodesAsync } from '~/lib/podcastSubscriptions';
+import { cn } from '~/lib/utils';
 
 interface PodcastPlayerProps {
-  controlState?: 'play' | 'pause' | 'refresh';
+  // Start the routine's podcast step on its own
+  onPlay: () => void;
+  // A routine is running, which plays the queue when it gets to its podcast step
+  routineRunning: boolean;
 }
 
-const PodcastPlayer: React.FC<PodcastPlayerProps> = ({ controlState }) => {
+// Shows the morning playlist and controls the routine's podcast step, which does the playing
+const PodcastPlayer = ({ onPlay, routineRunning }: PodcastPlayerProps) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [latestEpisode, setLatestEpisode] = useState<string | null>(null);
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [podcastTitle, setPodcastTitle] = useState('');
-  const [isInitializing, setIsInitializing] = useState(true);
-
-  // Fetch the latest episode from NPR's Up First RSS feed
-  const fetchLatestEpisode = async () => {
+  const subscriptions = usePodcastStore((state) => state.subscriptions);
+  const budgetMinutes = usePodcastStore((state) => state.budgetMinutes);
+  const downloads = usePodcastStore((state) => state.downloads);
+  // Set while an episode is downloading, from the card or the background task
+  const downloadProgress = usePodcastStore((state) => state.progress);
+  // The morning playlist, shared with the routine's podcast step
+  const queue = usePodcastStore((state) => state.queue);
+  const current = usePodcastStore((state) => state.current);
+  const listenedMs = usePodcastStore((state) => state.listenedMs);
+  const positionMs = usePodcastStore((state) => state.positionMs);
+  const playback = usePodcastStore((state) => state.playback);
+  const setPlayback = usePodcastStore((state) => state.setPlayback);
+  const skipEpisode = usePodcastStore((state) => state.skipEpisode);
+  const moveEpisode = usePodcastStore((state) => state.moveEpisode);
+
+  const hasRoutineFeeds = subscriptions.some((subscription) => subscription.inRoutine);
+  const episode = queue[current] ?? null;
+  const feedOf = (item: PodcastEpisode) => subscriptions.find((subscription) => subscription.url === item.feedUrl);
+  // The step stops by itself once the time budget is used up
+  const budgetReached =
+    playback === 'stopped' && episode !== null && getRemainingMs(listenedMs + positionMs, budgetMinutes) === 0;
+
+  // Fetch the episode each routine feed's rule picks. Episodes already in the queue keep their place.
+  const fetchQueue = async () => {
     try {
       setLoading(true);
       setError(null);
-      
-      const response = await fetch('https://feeds.npr.org/510318/podcast.xml');
-      const responseText = await response.text();
-      const rss = await rssParser.parse(responseText);
-      
-      // Get the latest episode (first item in the feed)
-      if (rss.items && rss.items.length > 0) {
-        const latest = rss.items[0];
-        setPodcastTitle(latest.title);
-        
-        // Find the audio enclosure
-        const audioEnclosure = latest.enclosures.find((enclosure) => 
-          enclosure.mimeType.startsWith('audio/')
-        );
-        
-        if (audioEnclosure) {
-          setLatestEpisode(audioEnclosure.url);
-        } else {
-          setError('No audio found for the latest episode');
-        }
-      } else {
-        setError('No episodes found in the feed');
-      }
+      usePodcastStore.getState().loadQueue(await getRoutineEpisodesAsync());
     } catch (err) {
-      setError('Failed to fetch podcast feed');
+      setError(err instanceof Error ? err.message : 'Failed to fetch podcast feeds');
       console.error(err);
     } finally {
       setLoading(false);
-      setIsInitializing(false);
     }
   };
 
-  // Load and play audio
-  const playPodcast = async () => {
-    try {
-      if (sound) {
-        // If we already have a sound object, just play it
-        const status = await sound.getStatusAsync();
-        if (status.isLoaded) {
-          await sound.playAsync();
-          setIsPlaying(true);
-        } else {
-          // If sound was unloaded for some reason, reload it
-          await loadAndPlaySound();
-        }
-      } else if (latestEpisode) {
-        // Otherwise, load and play the audio
-        await loadAndPlaySound();
-      } else {
-        // If we don't have an episode URL yet, fetch it first
-        await fetchLatestEpisode();
-      }
-    } catch (err) {
-      setError('Failed to play podcast');
-      setLoading(false);
-      console.error(err);
-    }
+  // Resume the paused step, or start it. Pressing play after the time budget keeps going.
+  const playPodcast = () => {
+    if (playback === 'paused') setPlayback('playing');
+    else onPlay();
   };
 
-  // Helper function to load and play sound
-  const loadAndPlaySound = async () => {
-    if (!latestEpisode) return;
-    
-    setLoading(true);
-    
+  // Save the queued episodes so they play instantly and without the network
+  const downloadQueue = async () => {
     try {
-      // Unload any existing audio first
-      if (sound) {
-        await sound.unloadAsync();
+      setError(null);
+      for (const item of queue.slice(current)) {
+        await downloadEpisodeAsync(item);
       }
-      
-      await Audio.setAudioModeAsync({
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: true,
-      });
-      
-      const { sound: newSound } = await Audio.Sound.createAsync(
-        { uri: latestEpisode },
-        { shouldPlay: true },
-        onPlaybackStatusUpdate
-      );
-      
-      setSound(newSound);
-      setIsPlaying(true);
     } catch (err) {
-      setError(`Failed to load audio: ${err instanceof Error ? err.message : String(err)}`);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Pause audio
-  const pausePodcast = async () => {
-    if (sound) {
-      const status = await sound.getStatusAsync();
-      if (status.isLoaded && status.isPlaying) {
-        await sound.pauseAsync();
-        setIsPlaying(false);
-      }
-    }
-  };
-
-  // Monitor playback status
-  const onPlaybackStatusUpdate = (status: AVPlaybackStatus) => {
-    if (status.isLoaded) {
-      setIsPlaying(status.isPlaying);
-      
-      // Handle audio finishing
-      if (status.didJustFinish) {
-        setIsPlaying(false);
-      }
-    } else if (!isInitializing && status && 'error' in status) {
-      // Only log and show errors, not normal unloaded states during initialization
-      console.error("Playback error:", status.error);
-      setError(`Playback error: ${status.error}`);
+      setError(`Failed to download episode: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
-  // Clean up when component unmounts
+  // Fetch the queue when the card mounts or the routine feeds change
+  const routineFeeds = subscriptions
+    .filter((subscription) => subscription.inRoutine)
+    .map((subscription) => `${subscription.url} ${subscription.rule}`)
+    .join();
   useEffect(() => {
-    return () => {
-      if (sound) {
-        sound.unloadAsync().catch(err => 
-          console.warn("Error unloading sound on cleanup:", err)
-        );
-      }
-    };
-  }, [sound]);
+    fetchQueue();
+  }, [routineFeeds]);
 
-  // Fetch the latest episode when component mounts
-  useEffect(() => {
-    fetchLatestEpisode();
-    
-    // Ensure proper audio setup on mount
-    const setupAudio = async () => {
-      try {
-        await Audio.setAudioModeAsync({
-          playsInSilentModeIOS: true,
-          staysActiveInBackground: true,
-          shouldDuckAndroid: true,
-        });
-      } catch (err) {
-        console.warn("Error setting audio mode:", err);
-      }
-    };
-    
-    setupAudio();
-  }, []);
-
-  // Handle controlState prop changes
-  useEffect(() => {
-    const handleControlChange = async () => {
-      if (controlState === 'play' && !isPlaying) {
-        await playPodcast();
-      } else if (controlState === 'pause' && isPlaying) {
-        await pausePodcast();
-      } else if (controlState === 'refresh') {
-        await fetchLatestEpisode();
-      }
-    };
-    
-    handleControlChange();
-  }, [controlState]);
+  // What's left of the queue, against what's left of the budget
+  const remainingMinutes = budgetMinutes === null ? null : getRemainingMs(listenedMs, budgetMinutes) / 60000;
+  const upcoming = planQueue(queue.slice(current), remainingMinutes);
+  const imageUrl = episode ? feedOf(episode)?.imageUrl : null;
 
   return (
     <Card className="p-4">
-      <Text className="font-bold text-lg mb-2">NPR Up First Podcast</Text>
-      
+      <View className="flex-row items-center mb-2">
+        {imageUrl && (
+          <Image source={{ uri: imageUrl }} className="h-10 w-10 rounded mr-2" />
+        )}
+        <View className="flex-1">
+          <Text className="font-bold text-lg">Morning playlist</Text>
+          <Text className="text-sm text-gray-500">{formatBudget(budgetMinutes)}</Text>
+        </View>
+        <Link href="/podcasts" asChild>
+          <Button variant="ghost" size="sm">
+            <Text>Manage</Text>
+          </Button>
+        </Link>
+      </View>
+
       {loading ? (
         <View className="items-center p-2">
           <ActivityIndicator size="small" />
-          <Text className="mt-2">{latestEpisode ? 'Loading audio...' : 'Fetching latest episode...'}</Text>
+          <Text className="mt-2">Fetching latest episodes...</Text>
         </View>
       ) : error ? (
         <Text className="text-red-600">{error}</Text>
+      ) : !hasRoutineFeeds ? (
+        <Text className="text-sm text-gray-500">Pick podcasts for the morning routine to play them here.</Text>
       ) : (
         <>
-          {podcastTitle && (
-            <Text className="mb-2 italic">{podcastTitle}</Text>
+          {upcoming.length === 0 ? (
+            <Text className="mb-2 text-sm text-gray-500">
+              {queue.length === 0 ? 'No new episodes to play.' : 'Finished the playlist.'}
+            </Text>
+          ) : (
+            upcoming.map(({ episode: item, fits }, offset) => {
+              const index = current + offset;
+              const progress = downloadProgress[item.audioUrl];
+              const details = [
+                feedOf(item)?.title,
+                item.durationSeconds ? formatDuration(item.durationSeconds) : null,
+                findDownload(downloads, item.audioUrl) ? 'Downloaded' : null,
+                fits ? null : 'Over the time limit',
+              ].filter(Boolean);
+
+              return (
+                <View key={item.audioUrl} className={cn("mb-2", !fits && "opacity-50")}>
+                  <View className="flex-row items-center gap-2">
+                    <Chip
+                      label="↑"
+                      selected={false}
+                      onPress={() => moveEpisode(index, -1)}
+                      className={offset <= 1 ? "opacity-40" : undefined}
+                    />
+                    <Chip
+                      label="↓"
+                      selected={false}
+                      onPress={() => moveEpisode(index, 1)}
+                      className={offset === 0 || offset === upcoming.length - 1 ? "opacity-40" : undefined}
+                    />
+                    <View className="flex-1">
+                      <Text className={cn("text-sm", offset === 0 && "font-semibold")} numberOfLines={1}>
+                        {item.title}
+                      </Text>
+                      <Text className="text-xs text-gray-500">{details.join(' · ')}</Text>
+                    </View>
+                    <Chip label="Skip" selected={false} onPress={() => skipEpisode(index)} />
+                  </View>
+                  {progress !== undefined && (
+                    <Progress value={progress * 100} className="h-1 mt-1" />
+                  )}
+                </View>
+              );
+            })
           )}
-          
+
+          {budgetReached && (
+            <Text className="mb-2 text-sm text-gray-500">Stopped at the time limit. Press play to keep listening.</Text>
+          )}
+
           <View className="flex-row space-x-2">
-            {isPlaying ? (
-              <Button onPress={pausePodcast}>
+            {playback === 'playing' ? (
+              <Button onPress={() => setPlayback('paused')}>
                 <Text>Pause</Text>
               </Button>
             ) : (
-              <Button onPress={playPodcast}>
-                <Text>Play Up First</Text>
+              <Button onPress={playPodcast} disabled={!episode || (playback === 'stopped' && routineRunning)}>
+                <Text>Play</Text>
               </Button>
             )}
-            
-            <Button variant="outline" onPress={fetchLatestEpisode}>
+
+            <Button variant="outline" onPress={fetchQueue}>
               <Text>Refresh</Text>
             </Button>
+
+            {upcoming.some(({ episode: item }) => !findDownload(downloads, item.audioUrl)) && (
+              <Button variant="outline" onPress={downloadQueue}>
+                <Text>Download</Text>
+              </Button>
+            )}
           </View>
         </>
       )}
@@ -226,4 +197,4 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({ controlState }) => {
   );
 };
 
-export default PodcastPlayer;
\ No newline at end of file
+export default PodcastPlayer;
@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { View, Switch, TextInput, Image, ActivityIndicator } from "react-native";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { EPISODE_RULES, EPISODE_RULE_INFO, PodcastSubscription } from "~/lib/podcast";
+import { PLAYLIST_BUDGETS } from "~/lib/podcastQueue";
+import { usePodcastStore } from "~/lib/podcastStore";
+import { addSubscriptionAsync, importOpmlAsync } from "~/lib/podcastSubscriptions";
+
+interface SubscriptionRowProps {
+  subscription: PodcastSubscription;
+}
+
+const SubscriptionRow = ({ subscription }: SubscriptionRowProps) => {
+  const updateSubscription = usePodcastStore((state) => state.updateSubscription);
+  const removeSubscription = usePodcastStore((state) => state.removeSubscription);
+
+  return (
+    <View className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <View className="flex-row items-center">
+        {subscription.imageUrl ? (
+          <Image source={{ uri: subscription.imageUrl }} className="h-12 w-12 rounded mr-3" />
+        ) : (
+          <View className="h-12 w-12 rounded mr-3 bg-secondary" />
+        )}
+        <View className="flex-1 mr-2">
+          <Text className="text-base font-medium">{subscription.title}</Text>
+          <Text className="text-xs text-gray-500" numberOfLines={1}>
+            {subscription.url}
+          </Text>
+        </View>
+        <Button variant="ghost" size="sm" onPress={() => removeSubscription(subscription.url)}>
+          <Text className="text-red-500">Remove</Text>
+        </Button>
+      </View>
+
+      <View className="flex-row justify-between items-center mt-2">
+        <Text className="text-sm">Play in morning routine</Text>
+        <Switch
+          trackColor={{ false: "#767577", true: "#b4d1ec" }}
+          thumbColor={subscription.inRoutine ? "#0284c7" : "#f4f3f4"}
+          onValueChange={(inRoutine) => updateSubscription(subscription.url, { inRoutine })}
+          value={subscription.inRoutine}
+        />
+      </View>
+      <View className="flex-row flex-wrap gap-2 mt-2">
+        {EPISODE_RULES.map((rule) => (
+          <Chip
+            key={rule}
+            label={EPISODE_RULE_INFO[rule].title}
+            selected={subscription.rule === rule}
+            onPress={() => updateSubscription(subscription.url, { rule })}
+          />
+        ))}
+      </View>
+      <Text className="text-xs text-gray-500 mt-1">{EPISODE_RULE_INFO[subscription.rule].description}</Text>
+    </View>
+  );
+};
+
+// Podcasts the player and the morning routine can play
+const PodcastSubscriptionsCard = () => {
+  const subscriptions = usePodcastStore((state) => state.subscriptions);
+  const budgetMinutes = usePodcastStore((state) => state.budgetMinutes);
+  const setBudgetMinutes = usePodcastStore((state) => state.setBudgetMinutes);
+  const [url, setUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await action());
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addFeed = () =>
+    run(async () => {
+      const subscription = await addSubscriptionAsync(url);
+      setUrl("");
+      return `Subscribed to ${subscription.title}`;
+    });
+
+  const importOpml = () =>
+    run(async () => {
+      const result = await importOpmlAsync();
+      if (!result) return null;
+      const failed = result.failed.length > 0 ? `, ${result.failed.length} couldn't be loaded` : "";
+      return `Imported ${result.added} podcast${result.added === 1 ? "" : "s"}${failed}`;
+    });
+
+  return (
+    <Card className="p-6 mb-4">
+      <Text className="text-xl font-semibold">Podcasts</Text>
+      <Text className="text-sm text-gray-500 mb-2">
+        Add a feed by its URL, or import the OPML file exported by another podcast app.
+      </Text>
+      <TextInput
+        value={url}
+        onChangeText={setUrl}
+        onSubmitEditing={addFeed}
+        placeholder="https://feeds.example.com/podcast.xml"
+        placeholderTextColor="#a1a1aa"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        className="mt-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground"
+      />
+      <View className="flex-row gap-2 mt-2">
+        <Button onPress={addFeed} disabled={busy || !url.trim()}>
+          <Text>Add feed</Text>
+        </Button>
+        <Button variant="outline" onPress={importOpml} disabled={busy}>
+          <Text>Import OPML</Text>
+        </Button>
+      </View>
+      {busy && <ActivityIndicator size="small" className="mt-2" />}
+      {message && <Text className="text-sm mt-2">{message}</Text>}
+      {error && <Text className="text-sm text-red-500 mt-2">{error}</Text>}
+
+      {subscriptions.length === 0 ? (
+        <Text className="text-sm text-gray-500 mt-4">No podcasts yet.</Text>
+      ) : (
+        subscriptions.map((subscription) => (
+          <SubscriptionRow key={subscription.url} subscription={subscription} />
+        ))
+      )}
+
+      <Text className="text-base font-medium mt-6">Stop the morning playlist after</Text>
+      <View className="flex-row flex-wrap gap-2 mt-2">
+        {PLAYLIST_BUDGETS.map((budget) => (
+          <Chip
+            key={budget ?? "none"}
+            label={budget === null ? "No limit" : `${budget} min`}
+            selected={budgetMinutes === budget}
+            onPress={() => setBudgetMinutes(budget)}
+          />
+        ))}
+      </View>
+    </Card>
+  );
+};
+
+export default PodcastSubscriptionsCard;
@@ -0,0 +1,86 @@
+import React from "react";
+import { View } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import {
+  AlarmConfig,
+  AlarmRepeat,
+  DAY_NAMES,
+  WEEKDAYS,
+  createIntervalRepeat,
+  formatRepeat,
+} from "~/lib/alarms";
+
+interface RepeatPickerProps {
+  value: AlarmRepeat;
+  time: Pick<AlarmConfig, "hour" | "minute" | "timeZone">;
+  onChange: (repeat: AlarmRepeat) => void;
+}
+
+// Lets the user choose between a one-off alarm, days of the week and "every N days"
+const RepeatPicker = ({ value, time, onChange }: RepeatPickerProps) => {
+  const selectedDays = value.type === "weekly" ? value.days : [];
+
+  const toggleDay = (day: number) => {
+    const days = selectedDays.includes(day)
+      ? selectedDays.filter((d) => d !== day)
+      : [...selectedDays, day].sort((a, b) => a - b);
+    onChange(days.length > 0 ? { type: "weekly", days } : { type: "once" });
+  };
+
+  const changeInterval = (delta: number) => {
+    const current = value.type === "interval" ? value.everyDays : 1;
+    onChange(createIntervalRepeat(time, Math.min(30, Math.max(1, current + delta))));
+  };
+
+  return (
+    <View className="mt-4">
+      <View className="flex-row justify-between items-center mb-2">
+        <Text className="text-sm">Repeat</Text>
+        <Text className="text-sm text-primary">{formatRepeat(value)}</Text>
+      </View>
+
+      <View className="flex-row gap-2 mb-3">
+        <Chip
+          label="Once"
+          selected={value.type === "once"}
+          onPress={() => onChange({ type: "once" })}
+        />
+        <Chip
+          label="Weekdays"
+          selected={value.type === "weekly" && formatRepeat(value) === "Mon–Fri"}
+          onPress={() => onChange({ type: "weekly", days: WEEKDAYS })}
+        />
+        <Chip
+          label="Every N days"
+          selected={value.type === "interval"}
+          onPress={() => changeInterval(value.type === "interval" ? 0 : 1)}
+        />
+      </View>
+
+      {value.type === "interval" ? (
+        <View className="flex-row items-center justify-center gap-4">
+          <Chip label="−" selected={false} onPress={() => changeInterval(-1)} />
+          <Text className="text-base">
+            Every {value.everyDays} {value.everyDays === 1 ? "day" : "days"}
+          </Text>
+          <Chip label="+" selected={false} onPress={() => changeInterval(1)} />
+        </View>
+      ) : (
+        <View className="flex-row justify-between">
+          {DAY_NAMES.map((name, day) => (
+            <Chip
+              key={name}
+              label={name.charAt(0)}
+              selected={selectedDays.includes(day)}
+              onPress={() => toggleDay(day)}
+              className="w-9 px-0"
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default RepeatPicker;
@@ -0,0 +1,83 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import {
+  ROUTINE_STEP_INFO,
+  RoutineStepConfig,
+  TIMER_MINUTES,
+  formatRoutine,
+  moveRoutineStep,
+  updateRoutineStep,
+} from "~/lib/routine";
+import { BRIEFING_RANGES, BRIEFING_RANGE_INFO, DEFAULT_BRIEFING_RANGE } from "~/lib/briefing";
+
+interface RoutinePickerProps {
+  value: RoutineStepConfig[];
+  onChange: (value: RoutineStepConfig[]) => void;
+}
+
+// Steps "Start My Day" runs after this alarm, which can be switched on and reordered
+const RoutinePicker = ({ value, onChange }: RoutinePickerProps) => (
+  <View className="mt-4">
+    <Text className="text-sm">Morning routine</Text>
+    <Text className="text-sm text-gray-500 mb-2">{formatRoutine(value)}</Text>
+
+    {value.map((step, index) => (
+      <View key={step.type} className="mb-2">
+        <View className="flex-row items-center gap-2">
+          <Chip
+            label="↑"
+            selected={false}
+            onPress={() => onChange(moveRoutineStep(value, step.type, -1))}
+            className={index === 0 ? "opacity-40" : undefined}
+          />
+          <Chip
+            label="↓"
+            selected={false}
+            onPress={() => onChange(moveRoutineStep(value, step.type, 1))}
+            className={index === value.length - 1 ? "opacity-40" : undefined}
+          />
+          <View className="flex-1">
+            <Text className="text-sm">{ROUTINE_STEP_INFO[step.type].title}</Text>
+            <Text className="text-xs text-gray-500">{ROUTINE_STEP_INFO[step.type].description}</Text>
+          </View>
+          <Switch
+            trackColor={{ false: "#767577", true: "#b4d1ec" }}
+            thumbColor={step.enabled ? "#0284c7" : "#f4f3f4"}
+            onValueChange={(enabled) => onChange(updateRoutineStep(value, step.type, { enabled }))}
+            value={step.enabled}
+          />
+        </View>
+
+        {step.type === "calendar" && step.enabled && (
+          <View className="flex-row flex-wrap items-center gap-2 mt-2 ml-20">
+            {BRIEFING_RANGES.map((range) => (
+              <Chip
+                key={range}
+                label={BRIEFING_RANGE_INFO[range].title}
+                selected={(step.range ?? DEFAULT_BRIEFING_RANGE) === range}
+                onPress={() => onChange(updateRoutineStep(value, step.type, { range }))}
+              />
+            ))}
+          </View>
+        )}
+
+        {step.type === "timer" && step.enabled && (
+          <View className="flex-row items-center gap-2 mt-2 ml-20">
+            {TIMER_MINUTES.map((minutes) => (
+              <Chip
+                key={minutes}
+                label={`${minutes} min`}
+                selected={step.minutes === minutes}
+                onPress={() => onChange(updateRoutineStep(value, step.type, { minutes }))}
+              />
+            ))}
+          </View>
+        )}
+      </View>
+    ))}
+  </View>
+);
+
+export default RoutinePicker;
@@ -0,0 +1,47 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { SmartWakeSettings } from "~/lib/alarms";
+
+const LEAD_OPTIONS = [30, 45, 60, 90];
+
+interface SmartWakePickerProps {
+  value: SmartWakeSettings;
+  onChange: (value: SmartWakeSettings) => void;
+}
+
+// Opt-in to waking earlier when the first calendar event is early
+const SmartWakePicker = ({ value, onChange }: SmartWakePickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center">
+      <Text className="text-sm">Smart wake</Text>
+      <Switch
+        trackColor={{ false: "#767577", true: "#b4d1ec" }}
+        thumbColor={value.enabled ? "#0284c7" : "#f4f3f4"}
+        onValueChange={(enabled) => onChange({ ...value, enabled })}
+        value={value.enabled}
+      />
+    </View>
+
+    {value.enabled && (
+      <>
+        <Text className="text-sm text-gray-500 mb-2">
+          Wake me at least this long before my first event, but never later than the set time.
+        </Text>
+        <View className="flex-row gap-2">
+          {LEAD_OPTIONS.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={`${minutes} min`}
+              selected={value.leadMinutes === minutes}
+              onPress={() => onChange({ ...value, leadMinutes: minutes })}
+            />
+          ))}
+        </View>
+      </>
+    )}
+  </View>
+);
+
+export default SmartWakePicker;
@@ -0,0 +1,46 @@
+import React from "react";
+import { View } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+
+const SNOOZE_LIMITS: (number | null)[] = [null, 1, 2, 3, 5];
+
+interface SnoozePickerProps {
+  snoozeMinutes: number;
+  maxSnoozes: number | null;
+  onChange: (value: { snoozeMinutes: number; maxSnoozes: number | null }) => void;
+}
+
+// Snooze length stepper plus an optional cap on the number of snoozes
+const SnoozePicker = ({ snoozeMinutes, maxSnoozes, onChange }: SnoozePickerProps) => {
+  const changeMinutes = (delta: number) => {
+    onChange({ snoozeMinutes: Math.min(30, Math.max(1, snoozeMinutes + delta)), maxSnoozes });
+  };
+
+  return (
+    <View className="mt-4">
+      <View className="flex-row justify-between items-center mb-2">
+        <Text className="text-sm">Snooze</Text>
+        <View className="flex-row items-center gap-3">
+          <Chip label="−" selected={false} onPress={() => changeMinutes(-1)} />
+          <Text className="text-sm text-primary">{snoozeMinutes} min</Text>
+          <Chip label="+" selected={false} onPress={() => changeMinutes(1)} />
+        </View>
+      </View>
+
+      <View className="flex-row items-center gap-2">
+        <Text className="text-sm text-gray-500 mr-1">Limit</Text>
+        {SNOOZE_LIMITS.map((limit) => (
+          <Chip
+            key={String(limit)}
+            label={limit === null ? "None" : `${limit}×`}
+            selected={maxSnoozes === limit}
+            onPress={() => onChange({ snoozeMinutes, maxSnoozes: limit })}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+export default SnoozePicker;
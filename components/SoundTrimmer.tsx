@@ -0,0 +1,69 @@
+import React from "react";
+import { View } from "react-native";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import { Progress } from "~/components/ui/progress";
+import { CustomSound } from "~/lib/soundStore";
+import {
+  TRIM_STEP_MS,
+  formatTrim,
+  formatTrimTime,
+  trimCustomSound,
+} from "~/lib/customSounds";
+
+interface SoundTrimmerProps {
+  sound: CustomSound;
+  onPreview: () => void;
+  onDelete: () => void;
+}
+
+const Stepper = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) => (
+  <View className="flex-row items-center gap-2 mt-2">
+    <Text className="text-sm text-gray-500 w-12">{label}</Text>
+    <Button variant="outline" size="sm" onPress={() => onChange(value - TRIM_STEP_MS)}>
+      <Text>−</Text>
+    </Button>
+    <Text className="text-base w-12 text-center">{formatTrimTime(value)}</Text>
+    <Button variant="outline" size="sm" onPress={() => onChange(value + TRIM_STEP_MS)}>
+      <Text>+</Text>
+    </Button>
+  </View>
+);
+
+// Pick the segment of an imported sound that plays when the alarm rings
+const SoundTrimmer = ({ sound, onPreview, onDelete }: SoundTrimmerProps) => (
+  <View className="px-4 pb-4 border-b border-gray-200 dark:border-gray-800">
+    <Text className="text-sm text-gray-500 mb-2">{formatTrim(sound)}</Text>
+    <Progress value={((sound.endMs - sound.startMs) / sound.durationMs) * 100} className="w-full" />
+
+    <Stepper
+      label="Start"
+      value={sound.startMs}
+      onChange={(startMs) => trimCustomSound(sound.id, startMs, sound.endMs)}
+    />
+    <Stepper
+      label="End"
+      value={sound.endMs}
+      onChange={(endMs) => trimCustomSound(sound.id, sound.startMs, endMs)}
+    />
+
+    <View className="flex-row gap-2 mt-3">
+      <Button variant="outline" size="sm" onPress={onPreview}>
+        <Text>Preview</Text>
+      </Button>
+      <Button variant="destructive" size="sm" onPress={onDelete}>
+        <Text>Delete</Text>
+      </Button>
+    </View>
+  </View>
+);
+
+export default SoundTrimmer;
@@ -3,136 +3,51 @@ import { View, ActivityIndicator, Platform, AppState } from 'react-native';
 import { Button } from "~/components/ui/button";
 import { Text } from "~/components/ui/text";
 import { Card } from "~/components/ui/card";
-import CalendarFetcher, { CalendarFetcherRef } from '~/components/CalendarFetcher';
+import { Progress } from "~/components/ui/progress";
 import PodcastPlayer from '~/components/PodcastPlayer';
-import * as Speech from 'expo-speech';
 import { Audio, InterruptionModeIOS, InterruptionModeAndroid } from 'expo-av';
-import { AVPlaybackStatus } from 'expo-av';
 import * as Notifications from 'expo-notifications';
+import {
+  DEFAULT_ROUTINE,
+  ROUTINE_STEP_INFO,
+  RoutineRunner,
+  RoutineStepConfig,
+  RoutineStepState,
+  RoutineStepStatus,
+  createRoutineRunner,
+  normalizeRoutine,
+} from '~/lib/routine';
+import { createRoutineStep } from '~/lib/routineSteps';
+import { recordStartMyDay } from '~/lib/history';
+
+export interface StartMyDayOptions {
+  // Number of times the alarm was snoozed before it was dismissed
+  snoozeCount?: number;
+  // Steps to run, from the alarm that was dismissed
+  routine?: RoutineStepConfig[];
+}
 
 // Define the ref type
 export interface StartMyDayRef {
-  startMyDay: () => void;
+  startMyDay: (options?: StartMyDayOptions) => void;
 }
 
+const statusColors: Record<RoutineStepStatus, string> = {
+  pending: 'bg-gray-300',
+  preparing: 'bg-gray-300',
+  ready: 'bg-gray-300',
+  running: 'bg-amber-500',
+  done: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-300',
+};
+
 const StartMyDay = forwardRef<StartMyDayRef, {}>((props, ref) => {
   const [isLoading, setIsLoading] = useState(false);
-  const [calendarSummary, setCalendarSummary] = useState<string | null>(null);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [podcastControl, setPodcastControl] = useState<'play' | 'pause' | 'refresh' | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
-  const [step, setStep] = useState<'idle' | 'fetching-calendar' | 'speaking' | 'playing-podcast'>('idle');
-  
-  // Add a ref for the CalendarFetcher component
-  const calendarFetcherRef = useRef<CalendarFetcherRef>(null);
-  
-  // Add a timeout ref to handle potential speech issues
-  const speechTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Handle API response from CalendarFetcher
-  const handleCalendarResponse = (response: string) => {
-    setCalendarSummary(response);
-    setIsLoading(false);
-    
-    // Start speaking the calendar summary
-    setStep('speaking');
-    setIsSpeaking(true);
-    
-    // Set a safety timeout in case speech onDone doesn't fire
-    if (speechTimeoutRef.current) {
-      clearTimeout(speechTimeoutRef.current);
-    }
-    
-    // Safety timeout to ensure podcast plays even if speech callbacks fail
-    speechTimeoutRef.current = setTimeout(() => {
-      if (step === 'speaking') {
-        console.log('Speech timeout triggered, proceeding to podcast');
-        Speech.stop(); // Stop any ongoing speech
-        setIsSpeaking(false);
-        moveToPodcast();
-      }
-    }, 30000); // 30-second timeout (adjust based on typical summary length)
-    
-    // Add an initialization delay to ensure audio system is fully ready
-    // This is crucial for when the app is launched from a notification/alarm
-    setTimeout(async () => {
-      try {
-        console.log('Setting up audio mode for speech...');
-        
-        // First, make sure we release any existing audio sessions
-        await Audio.setIsEnabledAsync(false);
-        await new Promise(resolve => setTimeout(resolve, 300)); // Short delay
-        
-        // Then re-enable and configure audio properly
-        await Audio.setIsEnabledAsync(true);
-        await Audio.setAudioModeAsync({
-          allowsRecordingIOS: false,
-          playsInSilentModeIOS: true,
-          staysActiveInBackground: true,
-          shouldDuckAndroid: true,
-          playThroughEarpieceAndroid: false, // Use speaker, not earpiece
-          interruptionModeIOS: InterruptionModeIOS.DoNotMix,
-        });
-        
-        console.log('Audio mode set, starting speech');
-        
-        // Now start the speech with proper audio setup
-        Speech.speak(response, {
-          language: 'en',
-          pitch: 1.0,
-          rate: 0.9,
-          onStart: () => {
-            console.log('Speech started');
-            setIsSpeaking(true);
-          },
-          onDone: () => {
-            console.log('Speech completed, moving to podcast');
-            setIsSpeaking(false);
-            
-            // Clear the safety timeout since speech completed naturally
-            if (speechTimeoutRef.current) {
-              clearTimeout(speechTimeoutRef.current);
-              speechTimeoutRef.current = null;
-            }
-            
-            moveToPodcast();
-          },
-          onStopped: () => {
-            console.log('Speech stopped');
-            setIsSpeaking(false);
-          },
-          onError: (error: any) => {
-            console.error('Speech error:', error);
-            setError(`Speech error: ${error}`);
-            setIsSpeaking(false);
-            
-            // Even if speech fails, we should still try to play the podcast
-            moveToPodcast();
-          }
-        });
-      } catch (err) {
-        console.error('Audio setup error:', err);
-        setError(`Audio setup error: ${err instanceof Error ? err.message : String(err)}`);
-        
-        // If audio setup fails, still try to do speech but it might be silent
-        Speech.speak(response, {
-          onDone: () => moveToPodcast(),
-          onError: () => moveToPodcast()
-        });
-      }
-    }, 800); // Add a delay to ensure app is fully awake when coming from notification
-  };
-  
-  // Separate function to handle transition to podcast
-  const moveToPodcast = () => {
-    console.log('Moving to podcast playback');
-    setStep('playing-podcast');
-    
-    // Small delay before starting podcast to ensure audio resources are properly released
-    setTimeout(() => {
-      setPodcastControl('play');
-    }, 500);
-  };
+  const [steps, setSteps] = useState<RoutineStepState[]>([]);
+  const runnerRef = useRef<RoutineRunner | null>(null);
+  const isRunning = steps.some((step) => step.status !== 'done' && step.status !== 'failed' && step.status !== 'cancelled');
 
   // Track app state to ensure alarm continues even if app is backgrounded
   const appState = useRef(AppState.currentState);
@@ -211,26 +126,33 @@ const StartMyDay = forwardRef<StartMyDayRef, {}>((props, ref) => {
     }
   };
 
+  // Run the steps, stopping a routine that is still running. A morning routine that
+  // runs to the end is logged in the history.
+  const runRoutine = async (routine: RoutineStepConfig[], snoozeCount: number, isMorningRoutine: boolean) => {
+    runnerRef.current?.cancel();
+    const runner = createRoutineRunner(routine, createRoutineStep, {
+      snoozeCount,
+      onChange: setSteps,
+    });
+    runnerRef.current = runner;
+    setIsLoading(false);
+
+    try {
+      const finished = await runner.start();
+      if (finished && isMorningRoutine) recordStartMyDay();
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   // Start the day routine
-  const startMyDay = async () => {
+  const startMyDay = async (options: StartMyDayOptions = {}) => {
     console.log('Starting my day routine');
     setIsLoading(true);
     setError(null);
-    setStep('fetching-calendar');
-    
-    // Reset podcast control
-    setPodcastControl(undefined);
-    
-    // Stop any ongoing speech
-    if (isSpeaking) {
-      Speech.stop();
-    }
-    
-    // Clear any existing timeout
-    if (speechTimeoutRef.current) {
-      clearTimeout(speechTimeoutRef.current);
-      speechTimeoutRef.current = null;
-    }
+
+    // Stop a routine that is still running
+    runnerRef.current?.cancel();
     
     // Create a persistent notification
     await createOngoingNotification();
@@ -274,19 +196,18 @@ const StartMyDay = forwardRef<StartMyDayRef, {}>((props, ref) => {
       console.warn('Audio initialization issue, continuing anyway:', err);
       // We'll continue even if this fails
     }
-    
-    // Trigger calendar fetching through the ref
-    if (calendarFetcherRef.current) {
-      calendarFetcherRef.current.fetchAndProcessEvents().catch(err => {
-        setError("Calendar fetch error: " + (err.message || "Unknown error"));
-        setIsLoading(false);
-        setStep('idle');
-      });
-    } else {
-      setError("Calendar component not initialized properly");
-      setIsLoading(false);
-      setStep('idle');
-    }
+
+    await runRoutine(normalizeRoutine(options.routine ?? DEFAULT_ROUTINE), options.snoozeCount ?? 0, true);
+  };
+
+  // Play the morning playlist from the podcast card, as the routine's podcast step on its own
+  const playPodcasts = () => {
+    setError(null);
+    runRoutine([{ type: 'podcast', enabled: true }], 0, false);
+  };
+
+  const stopRoutine = () => {
+    runnerRef.current?.cancel();
   };
 
   // Expose the startMyDay method to parent components via ref
@@ -294,18 +215,10 @@ const StartMyDay = forwardRef<StartMyDayRef, {}>((props, ref) => {
     startMyDay
   }));
 
-  // Clean up speech and timeouts if component unmounts
+  // Stop the routine if component unmounts
   useEffect(() => {
-    return () => {
-      if (isSpeaking) {
-        Speech.stop();
-      }
-      
-      if (speechTimeoutRef.current) {
-        clearTimeout(speechTimeoutRef.current);
-      }
-    };
-  }, [isSpeaking]);
+    return () => runnerRef.current?.cancel();
+  }, []);
 
   return (
     <View className="">
@@ -313,46 +226,42 @@ const StartMyDay = forwardRef<StartMyDayRef, {}>((props, ref) => {
         
         <Button 
           size="lg" 
-          onPress={startMyDay} 
-          disabled={isLoading || isSpeaking}
+          onPress={() => startMyDay()} 
+          disabled={isLoading || isRunning}
           className="mb-4"
         >
           <Text className="font-bold">Start My Day Right</Text>
         </Button>
         
-        {step !== 'idle' && (
-          <View className="mt-2">
-            <View className="flex-row items-center mb-2">
-              <View className={`h-3 w-3 rounded-full mr-2 ${step === 'fetching-calendar' ? 'bg-amber-500' : (step === 'speaking' || step === 'playing-podcast') ? 'bg-green-500' : 'bg-gray-300'}`} />
-              <Text>Fetch Calendar Events</Text>
-              {step === 'fetching-calendar' && isLoading && <ActivityIndicator size="small" className="ml-2" />}
-            </View>
-            
-            <View className="flex-row items-center mb-2">
-              <View className={`h-3 w-3 rounded-full mr-2 ${step === 'speaking' ? 'bg-amber-500' : (step === 'playing-podcast') ? 'bg-green-500' : 'bg-gray-300'}`} />
-              <Text>Read Daily Summary</Text>
-              {isSpeaking && <ActivityIndicator size="small" className="ml-2" />}
-            </View>
-            
+        {isRunning && (
+          <Button variant="outline" onPress={stopRoutine} className="mb-4">
+            <Text>Stop</Text>
+          </Button>
+        )}
+
+        {steps.map((step) => (
+          <View key={step.type} className="mb-2">
             <View className="flex-row items-center">
-              <View className={`h-3 w-3 rounded-full mr-2 ${step === 'playing-podcast' ? 'bg-amber-500' : 'bg-gray-300'}`} />
-              <Text>Play Morning Podcast</Text>
+              <View className={`h-3 w-3 rounded-full mr-2 ${statusColors[step.status]}`} />
+              <Text>{ROUTINE_STEP_INFO[step.type].title}</Text>
+              {(step.status === 'preparing' || step.status === 'running') && (
+                <ActivityIndicator size="small" className="ml-2" />
+              )}
             </View>
+            {step.status === 'running' && step.progress > 0 && (
+              <Progress value={step.progress * 100} className="mt-1 h-1" />
+            )}
+            {step.error && <Text className="text-sm text-red-600 mt-1">{step.error}</Text>}
           </View>
-        )}
+        ))}
         
         {error && (
           <Text className="text-red-600 mt-2">{error}</Text>
         )}
       </Card>
       
-      {/* Hidden CalendarFetcher but accessible via ref */}
-      <View className="h-0 overflow-hidden">
-        <CalendarFetcher ref={calendarFetcherRef} onApiResponse={handleCalendarResponse} />
-      </View>
-      
       {/* Podcast Player */}
-      <PodcastPlayer controlState={podcastControl} />
+      <PodcastPlayer onPlay={playPodcasts} routineRunning={isRunning} />
     </View>
   );
 });
@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { View, TextInput, ActivityIndicator } from "react-native";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { useBriefingStore } from "~/lib/briefingStore";
+import { createBriefingPayload, getBriefingDaysAsync } from "~/lib/briefing";
+import {
+  SUMMARIZATION_PROVIDER_INFO,
+  SummarizationProviderType,
+  SummarizationSettings,
+  createSummarizationProvider,
+} from "~/lib/summarization";
+
+const PROVIDERS: SummarizationProviderType[] = ["hosted", "openai", "template"];
+
+type TextSetting = Exclude<keyof SummarizationSettings, "provider">;
+
+interface SettingFieldProps {
+  label: string;
+  setting: TextSetting;
+  placeholder: string;
+  secret?: boolean;
+}
+
+// A text setting that is saved when editing ends
+const SettingField = ({ label, setting, placeholder, secret }: SettingFieldProps) => {
+  const value = useBriefingStore((state) => state.summarization[setting]);
+  const setSummarization = useBriefingStore((state) => state.setSummarization);
+  const [text, setText] = useState(value);
+
+  return (
+    <View className="mt-2">
+      <Text className="text-sm text-gray-500">{label}</Text>
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        onEndEditing={() => setSummarization({ [setting]: text.trim() })}
+        placeholder={placeholder}
+        placeholderTextColor="#a1a1aa"
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry={secret}
+        className="mt-1 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-foreground"
+      />
+    </View>
+  );
+};
+
+// Which service writes the calendar briefing. Whatever is chosen, the on-device
+// summary is used if the service can't be reached.
+const SummarizationCard = () => {
+  const summarization = useBriefingStore((state) => state.summarization);
+  const setSummarization = useBriefingStore((state) => state.setSummarization);
+  const filters = useBriefingStore((state) => state.filters);
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeProvider = (provider: SummarizationProviderType) => {
+    setSummarization({ provider });
+    setResult(null);
+    setError(null);
+  };
+
+  // Summarise today's events without the offline fallback, to check the settings
+  const testProvider = async () => {
+    setTesting(true);
+    setResult(null);
+    setError(null);
+    try {
+      const days = await getBriefingDaysAsync("today", new Date(), filters);
+      setResult(await createSummarizationProvider(summarization).summarize(createBriefingPayload(days)));
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 mb-4">
+      <Text className="text-xl font-semibold">Calendar summary</Text>
+      <Text className="text-sm text-gray-500 mb-2">
+        {SUMMARIZATION_PROVIDER_INFO[summarization.provider].description}
+      </Text>
+      <View className="flex-row flex-wrap gap-2">
+        {PROVIDERS.map((provider) => (
+          <Chip
+            key={provider}
+            label={SUMMARIZATION_PROVIDER_INFO[provider].title}
+            selected={summarization.provider === provider}
+            onPress={() => changeProvider(provider)}
+          />
+        ))}
+      </View>
+
+      {summarization.provider === "hosted" && (
+        <>
+          <SettingField label="Server URL" setting="hostedUrl" placeholder="http://192.168.1.10:3001" />
+          <SettingField label="API key (optional)" setting="hostedApiKey" placeholder="None" secret />
+        </>
+      )}
+      {summarization.provider === "openai" && (
+        <>
+          <SettingField label="API base URL" setting="openAiUrl" placeholder="https://api.openai.com/v1" />
+          <SettingField label="API key" setting="openAiApiKey" placeholder="sk-..." secret />
+          <SettingField label="Model" setting="openAiModel" placeholder="gpt-4o-mini" />
+        </>
+      )}
+
+      <Button variant="outline" onPress={testProvider} disabled={testing} className="mt-4">
+        <Text>Test with today's events</Text>
+      </Button>
+      {testing && <ActivityIndicator size="small" className="mt-2" />}
+      {result && <Text className="text-sm mt-2">{result}</Text>}
+      {error && <Text className="text-sm text-red-500 mt-2">{error}</Text>}
+    </Card>
+  );
+};
+
+export default SummarizationCard;
@@ -0,0 +1,58 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { getNextTriggerDate } from "~/lib/alarms";
+import { formatDeviceTime, formatTimeZone, getDeviceTimeZone } from "~/lib/timeZone";
+
+interface TimeZonePickerProps {
+  value: string | null;
+  time: { hour: number; minute: number };
+  onChange: (value: string | null) => void;
+}
+
+// Keep the alarm on home time while travelling instead of following the device
+const TimeZonePicker = ({ value, time, onChange }: TimeZonePickerProps) => {
+  const deviceZone = getDeviceTimeZone();
+  const isAway = value !== null && value !== deviceZone;
+
+  return (
+    <View className="mt-4">
+      <View className="flex-row justify-between items-center">
+        <Text className="text-sm">Keep home time zone</Text>
+        <Switch
+          trackColor={{ false: "#767577", true: "#b4d1ec" }}
+          thumbColor={value !== null ? "#0284c7" : "#f4f3f4"}
+          onValueChange={(enabled) => onChange(enabled ? deviceZone : null)}
+          value={value !== null}
+        />
+      </View>
+
+      {value !== null && (
+        <>
+          <Text className="text-sm text-gray-500 mb-2">
+            Rings at this time in {formatTimeZone(value)}, even when you travel.
+          </Text>
+          {isAway && (
+            <>
+              <Text className="text-sm text-amber-600 dark:text-amber-400 mb-2">
+                {`That's ${formatDeviceTime(
+                  getNextTriggerDate({ ...time, repeat: { type: "once" }, timeZone: value })
+                )} in ${formatTimeZone(deviceZone)}`}
+              </Text>
+              <View className="flex-row">
+                <Chip
+                  label={`Use ${formatTimeZone(deviceZone)} as home`}
+                  selected={false}
+                  onPress={() => onChange(deviceZone)}
+                />
+              </View>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+export default TimeZonePicker;
@@ -0,0 +1,78 @@
+import React from "react";
+import { View, Switch } from "react-native";
+import { Text } from "~/components/ui/text";
+import Chip from "~/components/Chip";
+import { ALARM_SOUNDS } from "~/lib/sounds";
+import { VolumeRampSettings, formatSeconds, formatVolumeRamp } from "~/lib/volumeRamp";
+
+const RAMP_DURATIONS = [30, 60, 120, 300];
+const ESCALATE_AFTER = [60, 120, 300];
+
+interface VolumeRampPickerProps {
+  value: VolumeRampSettings;
+  onChange: (value: VolumeRampSettings) => void;
+}
+
+// Gentle wake: start quiet, get louder, optionally switch to a harsher sound
+const VolumeRampPicker = ({ value, onChange }: VolumeRampPickerProps) => (
+  <View className="mt-4">
+    <View className="flex-row justify-between items-center">
+      <Text className="text-sm">Gentle wake</Text>
+      <Switch
+        trackColor={{ false: "#767577", true: "#b4d1ec" }}
+        thumbColor={value.enabled ? "#0284c7" : "#f4f3f4"}
+        onValueChange={(enabled) => onChange({ ...value, enabled })}
+        value={value.enabled}
+      />
+    </View>
+
+    {value.enabled && (
+      <>
+        <Text className="text-sm text-gray-500 mb-2">{formatVolumeRamp(value)}</Text>
+        <View className="flex-row gap-2">
+          {RAMP_DURATIONS.map((seconds) => (
+            <Chip
+              key={seconds}
+              label={formatSeconds(seconds)}
+              selected={value.durationSeconds === seconds}
+              onPress={() => onChange({ ...value, durationSeconds: seconds })}
+            />
+          ))}
+        </View>
+
+        <Text className="text-sm text-gray-500 mt-3 mb-2">If still ringing, switch to</Text>
+        <View className="flex-row flex-wrap gap-2">
+          <Chip
+            label="Same sound"
+            selected={value.escalateSoundId === null}
+            onPress={() => onChange({ ...value, escalateSoundId: null })}
+          />
+          {ALARM_SOUNDS.filter((sound) => sound.id !== "silent").map((sound) => (
+            <Chip
+              key={sound.id}
+              label={sound.name}
+              selected={value.escalateSoundId === sound.id}
+              onPress={() => onChange({ ...value, escalateSoundId: sound.id })}
+            />
+          ))}
+        </View>
+
+        {value.escalateSoundId !== null && (
+          <View className="flex-row items-center gap-2 mt-2">
+            <Text className="text-sm text-gray-500 mr-1">After</Text>
+            {ESCALATE_AFTER.map((seconds) => (
+              <Chip
+                key={seconds}
+                label={formatSeconds(seconds)}
+                selected={value.escalateAfterSeconds === seconds}
+                onPress={() => onChange({ ...value, escalateAfterSeconds: seconds })}
+              />
+            ))}
+          </View>
+        )}
+      </>
+    )}
+  </View>
+);
+
+export default VolumeRampPicker;
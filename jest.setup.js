@@ -0,0 +1,4 @@
+// The test script runs with TZ=America/New_York, so local times in the tests are Eastern
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
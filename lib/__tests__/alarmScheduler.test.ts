@@ -0,0 +1,584 @@
+import * as Notifications from 'expo-notifications';
+import { AlarmConfig, SkipRules, createAlarmDraft, startTimer } from '~/lib/alarms';
+import { createAlarmScheduler } from '~/lib/alarmScheduler';
+import { getNotificationOccurrence } from '~/lib/alarmNotifications';
+import { DEFAULT_ESCALATION } from '~/lib/escalation';
+import { DEFAULT_BEDTIME } from '~/lib/bedtime';
+import { createFakeClock, createFakeNotifications } from './fakeNotifications';
+
+const local = (year: number, month: number, day: number, hour: number, minute: number, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createAlarm(overrides: Partial<AlarmConfig> = {}): AlarmConfig {
+  return {
+    ...createAlarmDraft(),
+    id: 'alarm-1',
+    hour: 7,
+    minute: 0,
+    enabled: true,
+    notificationIds: [],
+    escalations: [],
+    ...overrides,
+  };
+}
+
+function setup(now: Date, skips?: SkipRules) {
+  const clock = createFakeClock(now);
+  const { adapter, scheduled } = createFakeNotifications();
+  const scheduler = createAlarmScheduler({
+    clock,
+    notifications: adapter,
+    getSkipRules: skips && (() => skips),
+  });
+  return { clock, adapter, scheduled, scheduler };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getNextTrigger', () => {
+  it('rings later today when the time is still ahead', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 6, 30));
+    expect(scheduler.getNextTrigger(createAlarm())).toEqual(local(2025, 6, 10, 7, 0));
+  });
+
+  it('rolls over to tomorrow once the time has passed', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 7, 0));
+    expect(scheduler.getNextTrigger(createAlarm())).toEqual(local(2025, 6, 11, 7, 0));
+  });
+
+  it('never schedules from a point in the past', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 8, 0));
+    expect(scheduler.getNextTrigger(createAlarm(), local(2025, 6, 1, 0, 0))).toEqual(local(2025, 6, 11, 7, 0));
+  });
+
+  it('skips to the next matching weekday', () => {
+    // Friday evening, Mon–Fri alarm
+    const { scheduler } = setup(local(2025, 6, 13, 18, 0));
+    const alarm = createAlarm({ repeat: { type: 'weekly', days: [1, 2, 3, 4, 5] } });
+    expect(scheduler.getNextTrigger(alarm)).toEqual(local(2025, 6, 16, 7, 0));
+  });
+
+  it('follows an every-N-days rule from its start date', () => {
+    const { scheduler } = setup(local(2025, 6, 11, 8, 0));
+    const alarm = createAlarm({ repeat: { type: 'interval', everyDays: 3, startDate: '2025-06-10' } });
+    expect(scheduler.getNextTrigger(alarm)).toEqual(local(2025, 6, 13, 7, 0));
+  });
+});
+
+describe('midnight rollover', () => {
+  it('moves a just-after-midnight alarm to the next day', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 23, 59));
+    expect(scheduler.getNextTrigger(createAlarm({ hour: 0, minute: 5 }))).toEqual(local(2025, 6, 11, 0, 5));
+  });
+
+  it('keeps a late-night alarm on the same day', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 23, 58));
+    expect(scheduler.getNextTrigger(createAlarm({ hour: 23, minute: 59 }))).toEqual(local(2025, 6, 10, 23, 59));
+  });
+
+  it('crosses month and year boundaries', () => {
+    const { scheduler } = setup(local(2025, 12, 31, 23, 59, 30));
+    expect(scheduler.getNextTrigger(createAlarm({ hour: 0, minute: 0 }))).toEqual(local(2026, 1, 1, 0, 0));
+  });
+
+  it('treats an alarm set for exactly now as tomorrow', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 0, 0));
+    expect(scheduler.getNextTrigger(createAlarm({ hour: 0, minute: 0 }))).toEqual(local(2025, 6, 11, 0, 0));
+  });
+});
+
+describe('DST transitions', () => {
+  it('keeps the wall-clock time across spring forward', () => {
+    // 2025-03-09 is 23 hours long in New York
+    const { scheduler } = setup(local(2025, 3, 8, 8, 0));
+    const next = scheduler.getNextTrigger(createAlarm());
+
+    expect(next.getHours()).toBe(7);
+    expect(next.getDate()).toBe(9);
+    expect(next.getTime() - local(2025, 3, 8, 7, 0).getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('rings at 3:30 when 2:30 is skipped by spring forward', () => {
+    const { scheduler } = setup(local(2025, 3, 9, 0, 0));
+    const next = scheduler.getNextTrigger(createAlarm({ hour: 2, minute: 30 }));
+
+    expect(next.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    expect(next.getHours()).toBe(3);
+  });
+
+  it('keeps the wall-clock time across fall back', () => {
+    // 2025-11-02 is 25 hours long in New York
+    const { scheduler } = setup(local(2025, 11, 1, 8, 0));
+    const next = scheduler.getNextTrigger(createAlarm());
+
+    expect(next.getHours()).toBe(7);
+    expect(next.getTime() - local(2025, 11, 1, 7, 0).getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('rings only once when 1:30 happens twice', () => {
+    const { scheduler } = setup(local(2025, 11, 2, 0, 0));
+    const alarm = createAlarm({ hour: 1, minute: 30, repeat: { type: 'interval', everyDays: 1, startDate: '2025-11-01' } });
+    const first = scheduler.getNextTrigger(alarm);
+
+    // The first 1:30 is still on daylight time
+    expect(first.toISOString()).toBe('2025-11-02T05:30:00.000Z');
+
+    // After it fires, the repeated 1:30 an hour later is skipped
+    const afterFiring = new Date(first.getTime() + 60 * 1000);
+    expect(scheduler.getNextTrigger(alarm, afterFiring)).toEqual(local(2025, 11, 3, 1, 30));
+  });
+
+  it('uses wall-clock triggers for repeating alarms so the OS follows DST', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 3, 7, 12, 0));
+    await scheduler.scheduleAlarm(createAlarm({ repeat: { type: 'weekly', days: [0] } }));
+
+    const [request] = [...scheduled.values()];
+    expect(request.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+      weekday: 1,
+      hour: 7,
+      minute: 0,
+    });
+  });
+});
+
+describe('home time zone', () => {
+  it('rings at the set time in the alarm’s zone', () => {
+    // Noon in New York is 1 AM the next day in Tokyo
+    const { scheduler } = setup(local(2025, 6, 10, 12, 0));
+    const next = scheduler.getNextTrigger(createAlarm({ timeZone: 'Asia/Tokyo' }));
+
+    expect(next.toISOString()).toBe('2025-06-10T22:00:00.000Z');
+  });
+
+  it('counts weekdays in the alarm’s zone', () => {
+    // Sunday evening in New York is already Monday morning in Tokyo, after 7:00
+    const { scheduler } = setup(local(2025, 6, 15, 20, 0));
+    const alarm = createAlarm({ timeZone: 'Asia/Tokyo', repeat: { type: 'weekly', days: [1] } });
+
+    expect(scheduler.getNextTrigger(alarm).toISOString()).toBe('2025-06-22T22:00:00.000Z');
+  });
+
+  it('ignores DST changes on the device', () => {
+    const { scheduler } = setup(local(2025, 3, 8, 12, 0));
+    const alarm = createAlarm({
+      timeZone: 'Asia/Tokyo',
+      repeat: { type: 'interval', everyDays: 1, startDate: '2025-03-01' },
+    });
+    const first = scheduler.getNextTrigger(alarm);
+    const second = scheduler.getNextTrigger(alarm, new Date(first.getTime() + 60 * 1000));
+
+    expect(first.toISOString()).toBe('2025-03-08T22:00:00.000Z');
+    expect(second.getTime() - first.getTime()).toBe(24 * HOUR_MS);
+  });
+
+  it('uses a date trigger so the OS doesn’t follow the device clock', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 12, 0));
+    const result = await scheduler.scheduleAlarm(
+      createAlarm({ timeZone: 'Europe/London', repeat: { type: 'weekly', days: [1, 2, 3, 4, 5] } })
+    );
+
+    expect(result.notificationIds).toHaveLength(1);
+    expect(scheduled.get(result.notificationIds[0])!.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: new Date('2025-06-11T06:00:00.000Z'),
+    });
+  });
+
+  it('reschedules when the alarm’s zone changes', async () => {
+    const { scheduler } = setup(local(2025, 6, 10, 12, 0));
+    const alarm = createAlarm({ timeZone: 'Asia/Tokyo' });
+    const { notificationIds } = await scheduler.scheduleAlarm(alarm);
+
+    const unchanged = await scheduler.reconcile([{ ...alarm, notificationIds }]);
+    const moved = await scheduler.reconcile([{ ...alarm, timeZone: 'Asia/Seoul', notificationIds }]);
+
+    expect(unchanged.needsSchedule).toEqual([]);
+    expect(moved.needsSchedule).toHaveLength(1);
+  });
+});
+
+describe('scheduleAlarm', () => {
+  it('schedules a single date trigger for a one-off alarm', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const result = await scheduler.scheduleAlarm(createAlarm());
+
+    expect(result.notificationIds).toHaveLength(1);
+    expect(result.nextTriggerAt).toBe(local(2025, 6, 10, 7, 0).toISOString());
+    expect(result.escalations).toEqual([]);
+
+    const request = scheduled.get(result.notificationIds[0])!;
+    expect(request.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: local(2025, 6, 10, 7, 0),
+    });
+    expect(request.content.data).toMatchObject({ type: 'alarm', alarmId: 'alarm-1' });
+  });
+
+  it('schedules one weekly trigger per selected day', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const result = await scheduler.scheduleAlarm(
+      createAlarm({ repeat: { type: 'weekly', days: [1, 2, 3, 4, 5] } })
+    );
+
+    expect(result.notificationIds).toHaveLength(5);
+    const weekdays = result.notificationIds.map(
+      (id) => (scheduled.get(id)!.trigger as Notifications.WeeklyTriggerInput).weekday
+    );
+    expect(weekdays).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  it('replaces the notifications from the previous schedule', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const first = await scheduler.scheduleAlarm(createAlarm());
+    const second = await scheduler.scheduleAlarm(createAlarm({ hour: 8, notificationIds: first.notificationIds }));
+
+    expect([...scheduled.keys()]).toEqual(second.notificationIds);
+    expect(second.nextTriggerAt).toBe(local(2025, 6, 10, 8, 0).toISOString());
+  });
+
+  it('moves past an occurrence that just fired', async () => {
+    const { scheduler, clock } = setup(local(2025, 6, 10, 6, 0));
+    const alarm = createAlarm({ repeat: { type: 'interval', everyDays: 2, startDate: '2025-06-10' } });
+    const first = await scheduler.scheduleAlarm(alarm);
+
+    clock.set(local(2025, 6, 10, 7, 0, 5));
+    const firedAt = new Date(first.nextTriggerAt);
+    const next = await scheduler.scheduleAlarm(
+      { ...alarm, notificationIds: first.notificationIds },
+      new Date(firedAt.getTime() + 60 * 1000)
+    );
+
+    expect(next.nextTriggerAt).toBe(local(2025, 6, 12, 7, 0).toISOString());
+  });
+
+  it('keeps the escalation ladder of the occurrence that is ringing', async () => {
+    const { scheduler, scheduled, clock } = setup(local(2025, 6, 10, 6, 0));
+    const alarm = createAlarm({
+      repeat: { type: 'interval', everyDays: 2, startDate: '2025-06-10' },
+      escalation: { ...DEFAULT_ESCALATION, enabled: true, maxSteps: 2 },
+    });
+
+    const first = await scheduler.scheduleAlarm(alarm);
+    expect(first.escalations).toHaveLength(1);
+    expect(first.escalations[0].ids).toHaveLength(2);
+    expect(scheduled.size).toBe(3);
+
+    // The alarm rings and is advanced to the next occurrence
+    clock.set(local(2025, 6, 10, 7, 0, 5));
+    const next = await scheduler.scheduleAlarm(
+      { ...alarm, ...first },
+      local(2025, 6, 10, 7, 1)
+    );
+
+    expect(next.escalations.map((entry) => entry.occurrence)).toEqual([
+      local(2025, 6, 10, 7, 0).toISOString(),
+      local(2025, 6, 12, 7, 0).toISOString(),
+    ]);
+    for (const id of first.escalations[0].ids) {
+      expect(scheduled.has(id)).toBe(true);
+    }
+  });
+});
+
+describe('dated alarms and naps', () => {
+  it('rings once on the chosen day', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const result = await scheduler.scheduleAlarm(createAlarm({ repeat: { type: 'date', date: '2025-06-20' } }));
+
+    expect(result.notificationIds).toHaveLength(1);
+    expect(scheduled.get(result.notificationIds[0])!.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: local(2025, 6, 20, 7, 0),
+    });
+  });
+
+  it('schedules nothing once the date has passed', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 21, 6, 0));
+    const alarm = createAlarm({
+      repeat: { type: 'date', date: '2025-06-20' },
+      escalation: { ...DEFAULT_ESCALATION, enabled: true },
+    });
+
+    const result = await scheduler.scheduleAlarm(alarm);
+
+    expect(result.notificationIds).toEqual([]);
+    expect(result.escalations).toEqual([]);
+    expect(result.nextTriggerAt).toBe(local(2025, 6, 20, 7, 0).toISOString());
+    expect(scheduled.size).toBe(0);
+  });
+
+  it('counts a nap down with a time interval trigger', async () => {
+    const now = local(2025, 6, 10, 13, 0, 30);
+    const { scheduler, scheduled } = setup(now);
+    const result = await scheduler.scheduleAlarm(createAlarm(startTimer(25, now)));
+
+    expect(result.nextTriggerAt).toBe(local(2025, 6, 10, 13, 25, 30).toISOString());
+    expect(scheduled.get(result.notificationIds[0])!.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+      seconds: 25 * 60,
+    });
+  });
+
+  it('reports a nap that ended while the app was closed', async () => {
+    const { scheduler } = setup(local(2025, 6, 10, 14, 0));
+    const nap = startTimer(25, local(2025, 6, 10, 13, 0));
+    const alarm = createAlarm({ ...nap, nextTriggerAt: local(2025, 6, 10, 13, 25).toISOString() });
+
+    const result = await scheduler.reconcile([alarm]);
+
+    expect(result.expired.map((item) => item.id)).toEqual(['alarm-1']);
+  });
+});
+
+describe('bedtime reminder', () => {
+  const bedtime = { ...DEFAULT_BEDTIME, enabled: true, sleepMinutes: 8 * 60, bufferMinutes: 15 };
+
+  it('reminds the user to wind down before the sleep goal', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 18, 0));
+    const result = await scheduler.scheduleAlarm(createAlarm({ hour: 7, minute: 30, bedtime }));
+
+    const request = scheduled.get(result.bedtimeNotificationId!)!;
+    expect(request.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: local(2025, 6, 10, 23, 15),
+    });
+    expect(request.content.body).toContain('Go to bed by 11:30 PM');
+    expect(request.content.data).toMatchObject({ type: 'bedtime', alarmId: 'alarm-1' });
+  });
+
+  it('moves the reminder when the alarm time changes', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 18, 0));
+    const alarm = createAlarm({ bedtime });
+    const first = await scheduler.scheduleAlarm(alarm);
+
+    const moved = await scheduler.scheduleAlarm({ ...alarm, ...first, hour: 6 });
+
+    expect(scheduled.has(first.bedtimeNotificationId!)).toBe(false);
+    expect(scheduled.get(moved.bedtimeNotificationId!)!.trigger).toMatchObject({
+      date: local(2025, 6, 10, 21, 45),
+    });
+  });
+
+  it('skips the reminder once it is already past', async () => {
+    const { scheduler } = setup(local(2025, 6, 11, 1, 0));
+    const result = await scheduler.scheduleAlarm(createAlarm({ bedtime }));
+
+    expect(result.bedtimeNotificationId).toBeUndefined();
+    expect(result.notificationIds).toHaveLength(1);
+  });
+
+  it('cancels reminders whose alarm was switched off', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 18, 0));
+    const alarm = createAlarm({ bedtime });
+    const result = await scheduler.scheduleAlarm(alarm);
+
+    await scheduler.reconcile([{ ...alarm, ...result }]);
+    expect(scheduled.has(result.bedtimeNotificationId!)).toBe(true);
+
+    await scheduler.reconcile([{ ...alarm, ...result, enabled: false }]);
+    expect(scheduled.size).toBe(0);
+  });
+});
+
+describe('skipped days', () => {
+  const weekdays = { type: 'weekly' as const, days: [1, 2, 3, 4, 5] };
+
+  it('moves past the occurrence chosen with "Skip next"', async () => {
+    // Monday morning
+    const { scheduler, scheduled } = setup(local(2025, 6, 9, 6, 0));
+    const alarm = createAlarm({ repeat: weekdays, skippedOccurrence: local(2025, 6, 9, 7, 0).toISOString() });
+
+    const result = await scheduler.scheduleAlarm(alarm);
+
+    expect(result.nextTriggerAt).toBe(local(2025, 6, 10, 7, 0).toISOString());
+    // A weekly trigger would still ring on the skipped day, so it is scheduled one day at a time
+    expect(result.notificationIds).toHaveLength(1);
+    expect(scheduled.get(result.notificationIds[0])!.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: local(2025, 6, 10, 7, 0),
+    });
+  });
+
+  it('stays quiet for the whole vacation', () => {
+    const { scheduler } = setup(local(2025, 6, 6, 18, 0), {
+      vacation: { start: '2025-06-09', end: '2025-06-13' },
+      holidays: [],
+    });
+
+    expect(scheduler.getNextTrigger(createAlarm({ repeat: weekdays }))).toEqual(local(2025, 6, 16, 7, 0));
+  });
+
+  it('skips holidays found in the calendar', () => {
+    const { scheduler } = setup(local(2025, 6, 9, 8, 0), { vacation: null, holidays: ['2025-06-10'] });
+
+    expect(scheduler.getNextTrigger(createAlarm({ repeat: weekdays }))).toEqual(local(2025, 6, 11, 7, 0));
+  });
+
+  it('still rings one-off alarms during a vacation', () => {
+    const { scheduler } = setup(local(2025, 6, 9, 6, 0), {
+      vacation: { start: '2025-06-09', end: '2025-06-13' },
+      holidays: [],
+    });
+
+    expect(scheduler.getNextTrigger(createAlarm())).toEqual(local(2025, 6, 9, 7, 0));
+  });
+
+  it('goes back to weekly triggers once the vacation is over', async () => {
+    const { scheduler } = setup(local(2025, 6, 14, 9, 0), {
+      vacation: { start: '2025-06-09', end: '2025-06-13' },
+      holidays: [],
+    });
+
+    const result = await scheduler.scheduleAlarm(createAlarm({ repeat: weekdays }));
+    expect(result.notificationIds).toHaveLength(5);
+  });
+});
+
+describe('cancelling', () => {
+  it('cancels only the alarm’s own notifications', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const kept = await scheduler.scheduleAlarm(createAlarm({ id: 'other' }));
+    const result = await scheduler.scheduleAlarm(createAlarm());
+
+    await scheduler.cancelAlarm(createAlarm({ notificationIds: result.notificationIds }));
+
+    expect([...scheduled.keys()]).toEqual(kept.notificationIds);
+  });
+
+  it('stops escalations up to the given time', async () => {
+    const { scheduler, adapter, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const followUp = () => adapter.scheduleNotificationAsync({ content: {}, trigger: null });
+    const today = await followUp();
+    const tomorrow = await followUp();
+    const alarm = createAlarm({
+      escalations: [
+        { occurrence: local(2025, 6, 10, 7, 0).toISOString(), ids: [today] },
+        { occurrence: local(2025, 6, 11, 7, 0).toISOString(), ids: [tomorrow] },
+      ],
+    });
+
+    const kept = await scheduler.cancelEscalations(alarm, local(2025, 6, 10, 7, 10));
+
+    expect(kept.map((entry) => entry.ids)).toEqual([[tomorrow]]);
+    expect([...scheduled.keys()]).toEqual([tomorrow]);
+  });
+});
+
+describe('scheduleSnooze', () => {
+  it('rings again after the snooze length, tied to the original occurrence', async () => {
+    const now = local(2025, 6, 10, 7, 1);
+    const { scheduler, scheduled } = setup(now);
+    const occurrence = local(2025, 6, 10, 7, 0);
+
+    const id = await scheduler.scheduleSnooze(createAlarm({ snoozeMinutes: 5 }), 1, occurrence);
+    const request = scheduled.get(id)!;
+
+    expect(request.trigger).toEqual({
+      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+      seconds: 300,
+    });
+    expect(request.content.data).toMatchObject({
+      type: 'snooze',
+      snoozeCount: 1,
+      alarmTime: local(2025, 6, 10, 7, 6).toISOString(),
+      occurrenceTime: occurrence.toISOString(),
+    });
+  });
+});
+
+describe('reconcile', () => {
+  it('cancels orphans and reports alarms that need scheduling', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    const current = createAlarm({ id: 'current' });
+    const removed = createAlarm({ id: 'removed' });
+    const currentIds = (await scheduler.scheduleAlarm(current)).notificationIds;
+    await scheduler.scheduleAlarm(removed);
+    const missing = createAlarm({ id: 'missing', notificationIds: ['gone'] });
+
+    const result = await scheduler.reconcile([{ ...current, notificationIds: currentIds }, missing]);
+
+    expect(result.needsSchedule.map((alarm) => alarm.id)).toEqual(['missing']);
+    expect([...scheduled.keys()]).toEqual(currentIds);
+  });
+
+  it('reschedules an alarm whose time changed', async () => {
+    const { scheduler } = setup(local(2025, 6, 10, 6, 0));
+    const alarm = createAlarm();
+    const { notificationIds } = await scheduler.scheduleAlarm(alarm);
+
+    const result = await scheduler.reconcile([{ ...alarm, hour: 8, notificationIds }]);
+
+    expect(result.needsSchedule).toHaveLength(1);
+  });
+
+  it('keeps repeating triggers that fired on earlier days', async () => {
+    const { scheduler, clock } = setup(local(2025, 6, 10, 6, 0));
+    const alarm = createAlarm({ repeat: { type: 'weekly', days: [1, 2, 3, 4, 5] } });
+    const { notificationIds } = await scheduler.scheduleAlarm(alarm);
+
+    clock.set(local(2025, 6, 19, 12, 0));
+    const result = await scheduler.reconcile([{ ...alarm, notificationIds }]);
+
+    expect(result.needsSchedule).toEqual([]);
+    expect(result.orphanedIds).toEqual([]);
+  });
+
+  it('reports one-off alarms that rang while the app was closed', async () => {
+    const { scheduler } = setup(local(2025, 6, 10, 9, 0));
+    const alarm = createAlarm({ nextTriggerAt: local(2025, 6, 10, 7, 0).toISOString() });
+
+    const result = await scheduler.reconcile([alarm]);
+
+    expect(result.expired.map((item) => item.id)).toEqual(['alarm-1']);
+    expect(result.needsSchedule).toEqual([]);
+  });
+});
+
+describe('getNotificationOccurrence', () => {
+  it('works out the morning a repeating trigger fired for', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    await scheduler.scheduleAlarm(createAlarm({ repeat: { type: 'weekly', days: [1] } }));
+
+    const [request] = [...scheduled.values()];
+    expect(request.content.data).not.toHaveProperty('alarmTime');
+    expect(getNotificationOccurrence(request.content.data, local(2025, 7, 14, 7, 0, 2))).toEqual(
+      local(2025, 7, 14, 7, 0)
+    );
+  });
+
+  it('reads the occurrence a one-off or snoozed alarm was scheduled for', async () => {
+    const { scheduler, scheduled } = setup(local(2025, 6, 10, 6, 0));
+    await scheduler.scheduleAlarm(createAlarm());
+
+    const [request] = [...scheduled.values()];
+    expect(getNotificationOccurrence(request.content.data, local(2025, 6, 10, 7, 3))).toEqual(
+      local(2025, 6, 10, 7, 0)
+    );
+  });
+});
+
+describe('getUpcomingAlarms', () => {
+  it('finds enabled alarms about to ring or that just rang', () => {
+    const { scheduler } = setup(local(2025, 6, 10, 6, 59, 30));
+    const alarms = [
+      createAlarm({ id: 'soon' }),
+      createAlarm({ id: 'later', hour: 8 }),
+      createAlarm({ id: 'off', enabled: false }),
+      createAlarm({ id: 'just-rang', hour: 6, minute: 59 }),
+    ];
+
+    const upcoming = scheduler.getUpcomingAlarms(alarms, 60, 60);
+
+    expect(upcoming.map(({ alarm }) => alarm.id)).toEqual(['just-rang', 'soon']);
+    expect(upcoming.map(({ secondsUntil }) => secondsUntil)).toEqual([-30, 30]);
+  });
+});
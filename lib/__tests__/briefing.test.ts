@@ -0,0 +1,241 @@
+import * as Calendar from 'expo-calendar';
+import {
+  BriefingEvent,
+  BriefingRange,
+  DEFAULT_BRIEFING_FILTERS,
+  createBriefingEvent,
+  createBriefingPayload,
+  filterBriefingEvents,
+  formatEventsForSummary,
+  getBriefingWindows,
+  groupEventsByDay,
+  summarizeEventsOffline,
+} from '~/lib/briefing';
+
+const at = (hour: number, minute = 0) => new Date(2025, 2, 10, hour, minute);
+
+function createCalendarEvent(title: string, start: Date, end: Date, overrides: Partial<Calendar.Event> = {}) {
+  return {
+    id: title,
+    calendarId: 'work',
+    title,
+    location: '',
+    notes: '',
+    timeZone: 'America/New_York',
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    allDay: false,
+    recurrenceRule: null,
+    availability: Calendar.Availability.BUSY,
+    status: Calendar.EventStatus.CONFIRMED,
+    ...overrides,
+  } as Calendar.Event;
+}
+
+const createEvent = (title: string, start: Date, end: Date, overrides: Partial<Calendar.Event> = {}) =>
+  createBriefingEvent(createCalendarEvent(title, start, end, overrides));
+
+const summarize = (events: BriefingEvent[], now = at(6), range: BriefingRange = 'today') =>
+  summarizeEventsOffline(createBriefingPayload(groupEventsByDay(events, getBriefingWindows(range, now)), now, range));
+
+describe('briefing events', () => {
+  it('keeps what the summary needs from a calendar event', () => {
+    const event = createBriefingEvent(
+      createCalendarEvent('1:1', at(9), at(9, 30), {
+        recurrenceRule: { frequency: Calendar.Frequency.WEEKLY },
+        availability: Calendar.Availability.TENTATIVE,
+      }),
+      'Work',
+      [
+        { name: 'Me', isCurrentUser: true, status: Calendar.AttendeeStatus.ACCEPTED } as Calendar.Attendee,
+        { name: 'Alex', email: 'alex@example.com', status: Calendar.AttendeeStatus.ACCEPTED } as Calendar.Attendee,
+      ]
+    );
+
+    expect(event).toEqual({
+      id: '1:1',
+      title: '1:1',
+      start: '2025-03-10T09:00:00-04:00',
+      end: '2025-03-10T09:30:00-04:00',
+      allDay: false,
+      timeZone: 'America/New_York',
+      location: null,
+      notes: null,
+      calendar: { id: 'work', title: 'Work' },
+      recurring: true,
+      availability: 'tentative',
+      cancelled: false,
+      response: 'accepted',
+      attendees: [{ name: 'Alex', email: 'alex@example.com', status: 'accepted' }],
+    });
+  });
+
+  it('still writes the original line format, without free events', () => {
+    const events = [
+      createEvent('Standup', at(9), at(9, 15), { location: 'Room 4' }),
+      createEvent('Focus time', at(10), at(12), { availability: Calendar.Availability.FREE }),
+    ];
+
+    expect(formatEventsForSummary(groupEventsByDay(events, getBriefingWindows('today', at(6))))).toBe(
+      'Standup (9:00 AM - 9:15 AM) at Room 4'
+    );
+  });
+
+  it('sends the time zone and current time with the events', () => {
+    const payload = createBriefingPayload([], at(6, 30), 'week');
+
+    expect(payload.now).toBe('2025-03-10T06:30:00-04:00');
+    expect(payload.timeZone).toBe('America/New_York');
+    expect(payload.range).toBe('week');
+  });
+});
+
+describe('briefing ranges', () => {
+  // March 10, 2025 is a Monday
+  const tuesday = new Date(2025, 2, 11, 6);
+  const labels = (range: BriefingRange, now: Date) => getBriefingWindows(range, now).map((window) => window.label);
+
+  it('looks at today, tomorrow morning or the week ahead', () => {
+    expect(labels('today', at(6))).toEqual(['Today']);
+    expect(labels('tomorrowMorning', at(6))).toEqual(['Today', 'Tomorrow morning']);
+    expect(labels('week', at(6))).toEqual([
+      'Today',
+      'Tomorrow',
+      'Wednesday',
+      'Thursday',
+      'Friday',
+      'Saturday',
+      'Sunday',
+    ]);
+    expect(labels('week', tuesday)).toEqual(['Today']);
+  });
+
+  it('groups events by the day they start, stopping at noon tomorrow', () => {
+    const days = groupEventsByDay(
+      [
+        createEvent('Late shift', at(22), new Date(2025, 2, 11, 2)),
+        createEvent('Early flight', new Date(2025, 2, 11, 5, 30), new Date(2025, 2, 11, 8)),
+        createEvent('Lunch', new Date(2025, 2, 11, 12, 30), new Date(2025, 2, 11, 13, 30)),
+      ],
+      getBriefingWindows('tomorrowMorning', at(6))
+    );
+
+    expect(days.map((day) => [day.date, day.label, day.events.map((event) => event.title)])).toEqual([
+      ['2025-03-10', 'Today', ['Late shift']],
+      ['2025-03-11', 'Tomorrow morning', ['Early flight']],
+    ]);
+    expect(formatEventsForSummary(days)).toBe(
+      'Late shift (10:00 PM - 2:00 AM)\nTomorrow morning:\nEarly flight (5:30 AM - 8:00 AM)'
+    );
+  });
+
+  it('introduces each later day in the offline summary', () => {
+    const summary = summarize(
+      [
+        createEvent('Standup', at(9), at(9, 15)),
+        createEvent('Early flight', new Date(2025, 2, 11, 5, 30), new Date(2025, 2, 11, 8)),
+      ],
+      at(6),
+      'tomorrowMorning'
+    );
+
+    expect(summary).toBe(
+      'You have one event: Standup at 9 AM. Your last event ends at 9:15 AM. ' +
+        'Tomorrow morning, you have one event: Early flight at 5:30 AM.'
+    );
+  });
+
+  it('says when the rest of the week is clear', () => {
+    // Next Monday is outside the week ahead
+    const nextWeek = createEvent('Sprint review', new Date(2025, 2, 17, 10), new Date(2025, 2, 17, 11));
+
+    expect(summarize([nextWeek], at(6), 'week')).toBe(
+      'Your calendar is clear today. Enjoy the free time. The rest of the week is clear.'
+    );
+  });
+});
+
+describe('briefing filters', () => {
+  const declined = createBriefingEvent(createCalendarEvent('Offsite', at(9), at(17)), 'Work', [
+    { name: 'Me', isCurrentUser: true, status: Calendar.AttendeeStatus.DECLINED } as Calendar.Attendee,
+  ]);
+  const events = [
+    createEvent('Standup', at(9), at(9, 15)),
+    createEvent('Lunch', at(12), at(13)),
+    createEvent('Mets vs Braves', at(19), at(22), { calendarId: 'sports' }),
+    createEvent('Mom’s birthday', at(0), at(23, 59), { allDay: true, calendarId: 'birthdays' }),
+    declined,
+  ];
+  const titles = (filtered: BriefingEvent[]) => filtered.map((event) => event.title);
+
+  it('leaves out excluded calendars and declined events by default', () => {
+    expect(titles(filterBriefingEvents(events, DEFAULT_BRIEFING_FILTERS))).toEqual([
+      'Standup',
+      'Lunch',
+      'Mets vs Braves',
+      'Mom’s birthday',
+    ]);
+    expect(
+      titles(filterBriefingEvents(events, { ...DEFAULT_BRIEFING_FILTERS, excludedCalendarIds: ['sports', 'birthdays'] }))
+    ).toEqual(['Standup', 'Lunch']);
+  });
+
+  it('can leave out all-day events and titles with keywords', () => {
+    const filters = { ...DEFAULT_BRIEFING_FILTERS, skipDeclined: false, skipAllDay: true, titleKeywords: ['lunch'] };
+
+    expect(titles(filterBriefingEvents(events, filters))).toEqual(['Standup', 'Mets vs Braves', 'Offsite']);
+  });
+});
+
+describe('offline summary', () => {
+  it('walks through the day in order', () => {
+    const summary = summarize([
+      createEvent('Lunch with Sam', at(12, 30), at(13, 30), { location: 'Cafe Rio' }),
+      createEvent('Standup', at(9), at(9, 15)),
+      createEvent('Public holiday', at(0), at(23, 59), { allDay: true }),
+    ]);
+
+    expect(summary).toBe(
+      'Today is Public holiday. You have 2 events. First up is Standup at 9 AM, ' +
+        'then Lunch with Sam at 12:30 PM in Cafe Rio. Your last event ends at 1:30 PM.'
+    );
+  });
+
+  it('only reads out the first few events of a busy day', () => {
+    const events = [9, 10, 11, 13, 14, 15].map((hour) => createEvent(`Meeting ${hour}`, at(hour), at(hour, 45)));
+
+    expect(summarize(events)).toBe(
+      'You have 6 events. First up is Meeting 9 at 9 AM, then Meeting 10 at 10 AM, Meeting 11 at 11 AM, ' +
+        'Meeting 13 at 1 PM and 2 more after that. Your last event ends at 3:45 PM.'
+    );
+  });
+
+  it('says who the next meeting is with and how soon it starts', () => {
+    const standup = {
+      ...createEvent('Standup', at(9), at(9, 15)),
+      attendees: [{ name: 'Alex', email: null, status: 'accepted' }],
+    };
+
+    expect(summarize([standup], at(8, 15))).toBe(
+      'You have one event: Standup with Alex at 9 AM. Your first event starts in 45 minutes. Your last event ends at 9:15 AM.'
+    );
+  });
+
+  it('leaves out free, cancelled and finished events', () => {
+    const summary = summarize(
+      [
+        createEvent('Gym', at(7), at(8)),
+        createEvent('Focus time', at(9), at(11), { availability: Calendar.Availability.FREE }),
+        createEvent('Design review', at(11), at(12), { status: Calendar.EventStatus.CANCELED }),
+        createEvent('Retro', at(15), at(16)),
+      ],
+      at(8, 30)
+    );
+
+    expect(summary).toBe('You have one event: Retro at 3 PM. Your last event ends at 4 PM.');
+  });
+
+  it('says so when the calendar is empty', () => {
+    expect(summarize([])).toBe('Your calendar is clear today. Enjoy the free time.');
+  });
+});
@@ -0,0 +1,69 @@
+import * as Calendar from 'expo-calendar';
+import { BriefingDay, createBriefingEvent } from '~/lib/briefing';
+import { BriefingCache, findCachedEpisodes, findCachedSummary, getEventsKey } from '~/lib/briefingCache';
+
+const at = (hour: number, minute = 0) => new Date(2025, 2, 10, hour, minute);
+
+function createDays(title: string, overrides: Partial<Calendar.Event> = {}): BriefingDay[] {
+  const event = createBriefingEvent({
+    id: 'standup',
+    calendarId: 'work',
+    title,
+    startDate: at(9).toISOString(),
+    endDate: at(9, 15).toISOString(),
+    allDay: false,
+    availability: Calendar.Availability.BUSY,
+    ...overrides,
+  } as Calendar.Event);
+  return [{ date: '2025-03-10', label: 'Today', events: [event] }];
+}
+
+// Prepared by the background task for an alarm at 7:00
+const days = createDays('Standup');
+const cache: BriefingCache = {
+  alarmId: 'alarm-1',
+  occurrence: at(7).toISOString(),
+  summary: {
+    range: 'today',
+    briefingFor: at(7).toISOString(),
+    eventsKey: getEventsKey(days),
+    summary: 'Standup is in two hours.',
+    source: 'online',
+  },
+  episodes: {
+    fetchedAt: at(6, 40).toISOString(),
+    episodes: [{ title: 'Up First', audioUrl: 'https://example.com/up-first.mp3' }],
+  },
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('briefing cache', () => {
+  it('reads out the pre-fetched summary when nothing changed', () => {
+    expect(findCachedSummary(cache, 'today', createDays('Standup'), at(7, 2))).toBe('Standup is in two hours.');
+  });
+
+  it('summarises again after a calendar change', () => {
+    expect(findCachedSummary(cache, 'today', createDays('Standup (moved to Zoom)'), at(7, 2))).toBeNull();
+    expect(
+      findCachedSummary(cache, 'today', createDays('Standup', { endDate: at(9, 30).toISOString() }), at(7, 2))
+    ).toBeNull();
+  });
+
+  it('summarises again after a long snooze or for a different range', () => {
+    expect(findCachedSummary(cache, 'today', days, at(7, 30))).toBeNull();
+    expect(findCachedSummary(cache, 'tomorrowMorning', days, at(7, 2))).toBeNull();
+    expect(findCachedSummary(null, 'today', days, at(7, 2))).toBeNull();
+  });
+
+  it('keeps the episodes for a few hours', () => {
+    expect(findCachedEpisodes(cache, at(7, 5))?.map((episode) => episode.title)).toEqual(['Up First']);
+    expect(findCachedEpisodes(cache, at(10))).toBeNull();
+  });
+});
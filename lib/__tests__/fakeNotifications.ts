@@ -0,0 +1,37 @@
+import type * as Notifications from 'expo-notifications';
+import type { Clock, NotificationsAdapter } from '~/lib/alarmScheduler';
+
+// In-memory stand-in for the OS notification schedule
+export function createFakeNotifications() {
+  const scheduled = new Map<string, Notifications.NotificationRequest>();
+  let nextId = 1;
+
+  const adapter: NotificationsAdapter = {
+    scheduleNotificationAsync: async (request) => {
+      const identifier = `notification-${nextId++}`;
+      scheduled.set(identifier, {
+        identifier,
+        content: request.content,
+        trigger: request.trigger,
+      } as Notifications.NotificationRequest);
+      return identifier;
+    },
+    cancelScheduledNotificationAsync: async (identifier) => {
+      scheduled.delete(identifier);
+    },
+    getAllScheduledNotificationsAsync: async () => [...scheduled.values()],
+  };
+
+  return { adapter, scheduled };
+}
+
+export function createFakeClock(start: Date) {
+  let current = start;
+  const clock: Clock & { set: (date: Date) => void } = {
+    now: () => new Date(current),
+    set: (date) => {
+      current = date;
+    },
+  };
+  return clock;
+}
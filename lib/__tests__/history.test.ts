@@ -0,0 +1,105 @@
+import { groupSessions, summarizeWeek } from '~/lib/history';
+import { AlarmEvent } from '~/lib/historyStore';
+
+// Monday, March 10th 2025
+const at = (day: number, hour: number, minute = 0, second = 0) => new Date(2025, 2, day, hour, minute, second);
+const weekStart = at(10, 0);
+
+let nextId = 0;
+function event(
+  type: AlarmEvent['type'],
+  occurrence: Date,
+  happenedAt: Date,
+  overrides: Partial<AlarmEvent> = {}
+): AlarmEvent {
+  nextId += 1;
+  return {
+    id: `event-${nextId}`,
+    type,
+    alarmId: 'alarm-1',
+    alarmLabel: 'Work',
+    occurrence: occurrence.toISOString(),
+    at: happenedAt.toISOString(),
+    ...overrides,
+  };
+}
+
+// Rang at `hour`, was snoozed `snoozes` times for 9 minutes each, then dismissed a minute later
+function morning(day: number, hour: number, snoozes = 0): AlarmEvent[] {
+  const occurrence = at(day, hour);
+  const events = [event('fired', occurrence, occurrence)];
+  for (let i = 1; i <= snoozes; i++) {
+    events.push(event('snoozed', occurrence, at(day, hour, (i - 1) * 9 + 1), { snoozeCount: i - 1 }));
+    events.push(event('fired', occurrence, at(day, hour, i * 9), { snoozeCount: i }));
+  }
+  events.push(event('dismissed', occurrence, at(day, hour, snoozes * 9 + 1), { snoozeCount: snoozes }));
+  return events;
+}
+
+describe('groupSessions', () => {
+  it('folds the rings and snoozes of one occurrence into one session', () => {
+    const sessions = groupSessions(morning(10, 7, 2));
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      alarmId: 'alarm-1',
+      occurrence: at(10, 7),
+      firedAt: at(10, 7),
+      dismissedAt: at(10, 7, 19),
+      snoozes: 2,
+      missed: false,
+    });
+  });
+
+  it('keeps occurrences apart and leaves out briefings run by hand', () => {
+    const briefing = event('startMyDay', at(11, 7, 30), at(11, 7, 30), { alarmId: null, alarmLabel: '' });
+    const sessions = groupSessions([...morning(11, 7), ...morning(10, 7), briefing]);
+
+    expect(sessions.map((session) => session.occurrence)).toEqual([at(10, 7), at(11, 7)]);
+  });
+});
+
+describe('summarizeWeek', () => {
+  it('counts only the seven days from the start of the week', () => {
+    const events = [
+      ...morning(9, 7, 3), // Sunday before
+      ...morning(10, 7, 1),
+      ...morning(16, 7), // Sunday, the last day of the week
+      ...morning(17, 7, 2), // Monday after
+      event('missed', at(12, 6), at(12, 7)),
+    ];
+    const summary = summarizeWeek(events, weekStart);
+
+    expect(summary.days.map((day) => day.date)).toEqual(Array.from({ length: 7 }, (_, index) => at(10 + index, 0)));
+    expect(summary.days[0].snoozes).toBe(1);
+    expect(summary.days[6].wakeMinutes).toBe(7 * 60 + 1);
+    expect(summary.snoozes).toBe(1);
+    expect(summary.missed).toBe(1);
+    expect(summary.averageTimeToDismissMs).toBe(((10 + 1) / 2) * 60 * 1000);
+  });
+
+  it('scores how close together the wake-up times are', () => {
+    const steady = summarizeWeek([...morning(10, 7), ...morning(11, 7)], weekStart);
+    expect(steady.consistency).toBe(100);
+
+    const spread = summarizeWeek([...morning(10, 6), ...morning(11, 8)], weekStart);
+    expect(spread.wakeSpreadMinutes).toBe(60);
+    expect(spread.consistency).toBe(0);
+  });
+
+  it('has nothing to report for an empty history', () => {
+    const summary = summarizeWeek([], weekStart);
+
+    expect(summary.days).toHaveLength(7);
+    expect(summary.days.every((day) => day.sessions.length === 0 && day.wakeMinutes === null)).toBe(true);
+    expect(summary).toMatchObject({
+      averageTimeToDismissMs: null,
+      averageWakeMinutes: null,
+      wakeSpreadMinutes: null,
+      consistency: null,
+      snoozes: 0,
+      missed: 0,
+      briefings: 0,
+    });
+  });
+});
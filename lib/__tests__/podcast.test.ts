@@ -0,0 +1,55 @@
+import { PodcastFeed, parseDuration, parseOpml, selectEpisode } from '~/lib/podcast';
+
+const feed: PodcastFeed = {
+  url: 'https://example.com/feed.xml',
+  title: 'Example',
+  imageUrl: null,
+  episodes: ['friday', 'thursday', 'wednesday'].map((day) => ({
+    title: day,
+    audioUrl: `https://example.com/${day}.mp3`,
+  })),
+};
+
+describe('selectEpisode', () => {
+  it('plays the newest episode with the latest only rule, until it has been heard', () => {
+    expect(selectEpisode(feed, 'latest', ['https://example.com/thursday.mp3'])?.title).toBe('friday');
+    expect(selectEpisode(feed, 'latest', ['https://example.com/friday.mp3'])).toBeNull();
+  });
+
+  it('plays the newest episode not heard yet with the unplayed only rule', () => {
+    const played = ['https://example.com/friday.mp3', 'https://example.com/wednesday.mp3'];
+    expect(selectEpisode(feed, 'unplayed', played)?.title).toBe('thursday');
+    expect(selectEpisode(feed, 'unplayed', feed.episodes.map((episode) => episode.audioUrl))).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads the formats feeds use', () => {
+    expect(parseDuration('1500')).toBe(1500);
+    expect(parseDuration('14:05')).toBe(845);
+    expect(parseDuration('1:02:03')).toBe(3723);
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('about an hour')).toBeNull();
+  });
+});
+
+describe('parseOpml', () => {
+  it('reads the feed URLs of an exported subscription list', () => {
+    const opml = `<?xml version="1.0" encoding="UTF-8"?>
+      <opml version="2.0">
+        <head><title>Subscriptions</title></head>
+        <body>
+          <outline text="feeds">
+            <outline type="rss" text="Up First" xmlUrl="https://feeds.npr.org/510318/podcast.xml" />
+            <outline type='rss' text='Example' xmlUrl='https://example.com/feed?id=1&amp;format=mp3'/>
+            <outline type="rss" text="Up First again" xmlUrl="https://feeds.npr.org/510318/podcast.xml" />
+          </outline>
+        </body>
+      </opml>`;
+
+    expect(parseOpml(opml)).toEqual([
+      'https://feeds.npr.org/510318/podcast.xml',
+      'https://example.com/feed?id=1&format=mp3',
+    ]);
+  });
+});
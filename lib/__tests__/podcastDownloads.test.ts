@@ -0,0 +1,35 @@
+import { selectExpiredDownloads } from '~/lib/podcastDownloads';
+import { DownloadedEpisode } from '~/lib/podcastStore';
+
+const now = new Date(2025, 2, 10, 6);
+
+const downloadedDaysAgo = (days: number, feedUrl = 'https://example.com/feed.xml'): DownloadedEpisode => ({
+  title: `${days} days ago`,
+  audioUrl: `https://example.com/${days}.mp3`,
+  feedUrl,
+  uri: `file:///podcasts/${days}.mp3`,
+  downloadedAt: new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+});
+
+const titles = (downloads: DownloadedEpisode[]) => downloads.map((download) => download.title);
+
+describe('selectExpiredDownloads', () => {
+  it('keeps only the newest few episodes', () => {
+    const downloads = [0, 3, 1, 2, 4].map((days) => downloadedDaysAgo(days));
+    expect(titles(selectExpiredDownloads(downloads, now))).toEqual(['3 days ago', '4 days ago']);
+  });
+
+  it('keeps the newest few of each feed', () => {
+    const downloads = [0, 1, 2, 3].map((days) => downloadedDaysAgo(days, `https://example.com/${days % 2}.xml`));
+    expect(selectExpiredDownloads(downloads, now)).toEqual([]);
+  });
+
+  it('drops episodes older than a week', () => {
+    const downloads = [0, 8].map((days) => downloadedDaysAgo(days));
+    expect(titles(selectExpiredDownloads(downloads, now))).toEqual(['8 days ago']);
+  });
+
+  it('always keeps the newest episode', () => {
+    expect(selectExpiredDownloads([downloadedDaysAgo(30)], now)).toEqual([]);
+  });
+});
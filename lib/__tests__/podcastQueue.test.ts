@@ -0,0 +1,63 @@
+import { PodcastEpisode } from '~/lib/podcast';
+import { getRemainingMs, mergeQueue, moveQueueItem, planQueue } from '~/lib/podcastQueue';
+
+const episode = (title: string, minutes: number | null): PodcastEpisode => ({
+  title,
+  audioUrl: `https://example.com/${title}.mp3`,
+  durationSeconds: minutes === null ? null : minutes * 60,
+});
+
+describe('planQueue', () => {
+  it('marks the episodes that start after the time budget', () => {
+    const queue = [episode('news', 12), episode('tech', 10), episode('history', 40)];
+    expect(planQueue(queue, 25).map(({ startsAt, fits }) => ({ startsAt, fits }))).toEqual([
+      { startsAt: 0, fits: true },
+      { startsAt: 12 * 60, fits: true },
+      { startsAt: 22 * 60, fits: true },
+    ]);
+    expect(planQueue(queue, 20).map(({ fits }) => fits)).toEqual([true, true, false]);
+  });
+
+  it('plays everything without a budget or when lengths are unknown', () => {
+    const queue = [episode('news', 30), episode('tech', 30)];
+    expect(planQueue(queue, null).every(({ fits }) => fits)).toBe(true);
+    const unknown = planQueue([episode('news', null), episode('tech', 30)], 15);
+    expect(unknown[1]).toMatchObject({ startsAt: null, fits: true });
+  });
+});
+
+describe('getRemainingMs', () => {
+  it('counts down the budget', () => {
+    expect(getRemainingMs(10 * 60 * 1000, 25)).toBe(15 * 60 * 1000);
+    expect(getRemainingMs(30 * 60 * 1000, 25)).toBe(0);
+    expect(getRemainingMs(30 * 60 * 1000, null)).toBe(Infinity);
+  });
+});
+
+describe('mergeQueue', () => {
+  const titles = (episodes: PodcastEpisode[]) => episodes.map(({ title }) => title);
+
+  it('keeps the order the queue was put in and adds new episodes at the end', () => {
+    const queue = [episode('news', 12), episode('history', 40), episode('tech', 10)];
+    const fetched = [episode('news', 12), episode('tech', 10), episode('history', 40), episode('science', 20)];
+    expect(titles(mergeQueue(queue, 0, fetched, []))).toEqual(['news', 'history', 'tech', 'science']);
+  });
+
+  it('keeps heard episodes and leaves out skipped and stale ones', () => {
+    const queue = [episode('news', 12), episode('history', 40), episode('tech', 10)];
+    const fetched = [episode('tech', 10), episode('science', 20), episode('sports', 5)];
+    expect(titles(mergeQueue(queue, 1, fetched, [episode('sports', 5).audioUrl]))).toEqual([
+      'news',
+      'tech',
+      'science',
+    ]);
+  });
+});
+
+describe('moveQueueItem', () => {
+  it('swaps neighbours and ignores moves past either end', () => {
+    expect(moveQueueItem(['a', 'b', 'c'], 2, -1)).toEqual(['a', 'c', 'b']);
+    expect(moveQueueItem(['a', 'b', 'c'], 0, -1)).toEqual(['a', 'b', 'c']);
+    expect(moveQueueItem(['a', 'b', 'c'], 2, 1)).toEqual(['a', 'b', 'c']);
+  });
+});
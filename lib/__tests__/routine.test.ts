@@ -0,0 +1,150 @@
+import {
+  DEFAULT_ROUTINE,
+  RoutineStep,
+  RoutineStepConfig,
+  RoutineStepState,
+  createRoutineRunner,
+  moveRoutineStep,
+  normalizeRoutine,
+} from '~/lib/routine';
+
+// A step that records what it was asked to do and finishes when told to
+function createFakeStep(log: string[], name: string, options: { failPrepare?: boolean; failRun?: boolean } = {}) {
+  let finish: (() => void) | null = null;
+  const step: RoutineStep & { finish: () => void } = {
+    prepare: async () => {
+      log.push(`prepare ${name}`);
+      if (options.failPrepare) throw new Error(`${name} unavailable`);
+    },
+    run: async () => {
+      log.push(`run ${name}`);
+      if (options.failRun) throw new Error(`${name} broke`);
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+    },
+    cancel: () => {
+      log.push(`cancel ${name}`);
+      finish?.();
+    },
+    progress: () => 0,
+    finish: () => finish?.(),
+  };
+  return step;
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function setup(routine: RoutineStepConfig[], options: Record<string, { failPrepare?: boolean; failRun?: boolean }> = {}) {
+  const log: string[] = [];
+  const steps = new Map<string, ReturnType<typeof createFakeStep>>();
+  let states: RoutineStepState[] = [];
+  const runner = createRoutineRunner(
+    routine,
+    (config) => {
+      const step = createFakeStep(log, config.type, options[config.type]);
+      steps.set(config.type, step);
+      return step;
+    },
+    { snoozeCount: 0, onChange: (next) => (states = next) }
+  );
+  return { log, steps, runner, getStates: () => states };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createRoutineRunner', () => {
+  it('prepares every enabled step, then runs them in order', async () => {
+    const { log, steps, runner, getStates } = setup([
+      { type: 'podcast', enabled: true },
+      { type: 'weather', enabled: false },
+      { type: 'calendar', enabled: true },
+    ]);
+
+    const done = runner.start();
+    await flush();
+    expect(log).toEqual(['prepare podcast', 'prepare calendar', 'run podcast']);
+
+    steps.get('podcast')!.finish();
+    await flush();
+    expect(log).toEqual(['prepare podcast', 'prepare calendar', 'run podcast', 'run calendar']);
+
+    steps.get('calendar')!.finish();
+    await expect(done).resolves.toBe(true);
+    expect(getStates().map((state) => [state.type, state.status])).toEqual([
+      ['podcast', 'done'],
+      ['calendar', 'done'],
+    ]);
+  });
+
+  it('moves on when a step fails', async () => {
+    const { log, steps, runner, getStates } = setup(
+      [
+        { type: 'weather', enabled: true },
+        { type: 'affirmation', enabled: true },
+        { type: 'podcast', enabled: true },
+      ],
+      { weather: { failPrepare: true }, affirmation: { failRun: true } }
+    );
+
+    const done = runner.start();
+    await flush();
+    steps.get('podcast')!.finish();
+    await done;
+
+    expect(log).not.toContain('run weather');
+    expect(getStates()).toEqual([
+      { type: 'weather', status: 'failed', progress: 0, error: 'weather unavailable' },
+      { type: 'affirmation', status: 'failed', progress: 0, error: 'affirmation broke' },
+      { type: 'podcast', status: 'done', progress: 1 },
+    ]);
+  });
+
+  it('stops the running step and skips the rest when cancelled', async () => {
+    const { log, runner, getStates } = setup([
+      { type: 'calendar', enabled: true },
+      { type: 'podcast', enabled: true },
+    ]);
+
+    const done = runner.start();
+    await flush();
+    runner.cancel();
+    await expect(done).resolves.toBe(false);
+
+    expect(log).toEqual(['prepare calendar', 'prepare podcast', 'run calendar', 'cancel calendar']);
+    expect(getStates().map((state) => state.status)).toEqual(['cancelled', 'cancelled']);
+  });
+});
+
+describe('routine configuration', () => {
+  it('adds steps that are missing from a saved routine, switched off', () => {
+    const routine = normalizeRoutine([
+      { type: 'podcast', enabled: true },
+      { type: 'calendar', enabled: true },
+    ]);
+
+    expect(routine.map((step) => step.type)).toEqual(['podcast', 'calendar', 'weather', 'affirmation', 'timer']);
+    expect(routine.filter((step) => step.enabled).map((step) => step.type)).toEqual(['podcast', 'calendar']);
+  });
+
+  it('uses the default routine for alarms saved before routines existed', () => {
+    expect(normalizeRoutine(undefined)).toEqual(DEFAULT_ROUTINE);
+  });
+
+  it('reorders steps and ignores moves past either end', () => {
+    expect(moveRoutineStep(DEFAULT_ROUTINE, 'podcast', -1).map((step) => step.type)).toEqual([
+      'calendar',
+      'podcast',
+      'weather',
+      'affirmation',
+      'timer',
+    ]);
+    expect(moveRoutineStep(DEFAULT_ROUTINE, 'calendar', -1)).toBe(DEFAULT_ROUTINE);
+  });
+});
@@ -0,0 +1,130 @@
+import * as Calendar from 'expo-calendar';
+import { createBriefingEvent, createBriefingPayload, getBriefingWindows, groupEventsByDay } from '~/lib/briefing';
+import {
+  DEFAULT_SUMMARIZATION,
+  RequestOptions,
+  createSummarizationProvider,
+  getBriefingAsync,
+} from '~/lib/summarization';
+
+const now = new Date(2025, 2, 10, 6);
+const payload = createBriefingPayload(
+  groupEventsByDay(
+    [
+      createBriefingEvent({
+        id: 'standup',
+        calendarId: 'work',
+        title: 'Standup',
+        startDate: new Date(2025, 2, 10, 9).toISOString(),
+        endDate: new Date(2025, 2, 10, 9, 15).toISOString(),
+        allDay: false,
+        availability: Calendar.Availability.BUSY,
+      } as Calendar.Event),
+    ],
+    getBriefingWindows('today', now)
+  ),
+  now
+);
+
+const OFFLINE_SUMMARY = 'You have one event: Standup at 9 AM. Your last event ends at 9:15 AM.';
+const NO_RETRIES: RequestOptions = { timeoutMs: 5000, retries: 0, retryDelayMs: 0 };
+
+const fetchMock = jest.fn();
+
+const respond = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body });
+
+beforeEach(() => {
+  jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('summarization providers', () => {
+  it('posts the events to the configured summary server', async () => {
+    fetchMock.mockResolvedValue(respond(200, { summary: 'Just a standup today.' }));
+    const provider = createSummarizationProvider(
+      { ...DEFAULT_SUMMARIZATION, hostedUrl: 'http://localhost:3001/', hostedApiKey: 'secret' },
+      NO_RETRIES
+    );
+
+    await expect(provider.summarize(payload)).resolves.toBe('Just a standup today.');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:3001/api/summarize-calendar');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({ calendarEvents: 'Standup (9:00 AM - 9:15 AM)', ...payload });
+  });
+
+  it('reads the reply of an OpenAI-compatible API', async () => {
+    fetchMock.mockResolvedValue(respond(200, { choices: [{ message: { content: ' Standup at nine. ' } }] }));
+    const provider = createSummarizationProvider(
+      { ...DEFAULT_SUMMARIZATION, provider: 'openai', openAiUrl: 'http://localhost:11434/v1', openAiModel: 'llama3' },
+      NO_RETRIES
+    );
+
+    await expect(provider.summarize(payload)).resolves.toBe('Standup at nine.');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('llama3');
+    expect(JSON.parse(body.messages[1].content)).toEqual(payload);
+  });
+
+  it('retries server errors but not client errors', async () => {
+    const options = { ...NO_RETRIES, retries: 2 };
+    const provider = createSummarizationProvider(DEFAULT_SUMMARIZATION, options);
+
+    fetchMock
+      .mockResolvedValueOnce(respond(503, { error: 'Unavailable' }))
+      .mockResolvedValueOnce(respond(200, { summary: 'Second time lucky.' }));
+    await expect(provider.summarize(payload)).resolves.toBe('Second time lucky.');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(respond(401, { error: 'Invalid API key' }));
+    await expect(provider.summarize(payload)).rejects.toThrow('Invalid API key');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on a request that takes too long', async () => {
+    jest.useFakeTimers();
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('Aborted')));
+        })
+    );
+
+    const summary = createSummarizationProvider(DEFAULT_SUMMARIZATION, NO_RETRIES).summarize(payload);
+    jest.advanceTimersByTime(NO_RETRIES.timeoutMs);
+
+    await expect(summary).rejects.toThrow('The summary service took too long to respond');
+  });
+});
+
+describe('getBriefingAsync', () => {
+  it('falls back to the offline summary when the provider fails', async () => {
+    fetchMock.mockResolvedValue(respond(500, { error: 'Server error' }));
+    const provider = createSummarizationProvider(DEFAULT_SUMMARIZATION, NO_RETRIES);
+
+    await expect(getBriefingAsync(payload, provider)).resolves.toEqual({
+      summary: OFFLINE_SUMMARY,
+      source: 'offline',
+    });
+  });
+
+  it('builds the summary on the device without the network', async () => {
+    const provider = createSummarizationProvider({ ...DEFAULT_SUMMARIZATION, provider: 'template' });
+
+    await expect(getBriefingAsync(payload, provider)).resolves.toEqual({
+      summary: OFFLINE_SUMMARY,
+      source: 'offline',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
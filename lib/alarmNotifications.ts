@@ -0,0 +1,304 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { format } from 'date-fns';
+import {
+  AlarmConfig,
+  NO_SKIPS,
+  SkipRules,
+  canSnooze,
+  getActiveAdjustment,
+  getNextActiveOccurrence,
+  getNextTriggerDate,
+  getScheduledTriggerDate,
+  getWallClockTime,
+  hasSkipsAhead,
+  isRepeating,
+} from '~/lib/alarms';
+import { getAlarmSound, getEscalationSound, getNotificationSound } from '~/lib/sounds';
+import { formatSleepGoal, getBedtime } from '~/lib/bedtime';
+
+export const ALARM_CATEGORY = 'alarm';
+// Used once the snooze limit is reached, so only "Dismiss" is offered
+export const ALARM_FINAL_CATEGORY = 'alarm-final';
+export const SNOOZE_ACTION = 'snooze';
+export const DISMISS_ACTION = 'dismiss';
+
+const dismissAction: Notifications.NotificationAction = {
+  identifier: DISMISS_ACTION,
+  buttonTitle: 'Dismiss',
+  options: {
+    isDestructive: true,
+  },
+};
+
+// Register the actions shown on alarm notifications
+export async function registerAlarmCategoryAsync() {
+  await Notifications.setNotificationCategoryAsync(ALARM_CATEGORY, [
+    {
+      identifier: SNOOZE_ACTION,
+      buttonTitle: 'Snooze',
+      options: {
+        opensAppToForeground: false,
+      },
+    },
+    dismissAction,
+  ]);
+  await Notifications.setNotificationCategoryAsync(ALARM_FINAL_CATEGORY, [dismissAction]);
+}
+
+// A null occurrence is for repeating triggers, which ring on many days: they carry
+// the set time instead, and the occurrence is worked out when they fire
+export function buildAlarmContent(
+  alarm: AlarmConfig,
+  triggerTime: Date,
+  snoozeCount: number = 0,
+  occurrence: Date | null = triggerTime,
+  escalationStep: number = 0
+): Notifications.NotificationContentInput {
+  const sound =
+    escalationStep > 0 ? getEscalationSound(alarm.soundId, escalationStep) : getAlarmSound(alarm.soundId);
+
+  let body = 'Time to wake up!';
+  if (escalationStep > 0) {
+    body = `Still ringing — wake up! (${escalationStep}/${alarm.escalation.maxSteps})`;
+  } else if (snoozeCount > 0) {
+    body = `Snoozed ${snoozeCount}× — time to wake up!`;
+  }
+
+  // Snooze and escalation follow-ups are tracked separately from the alarm's own schedule
+  let type = 'alarm';
+  if (escalationStep > 0) {
+    type = 'escalation';
+  } else if (snoozeCount > 0) {
+    type = 'snooze';
+  }
+
+  return {
+    title: alarm.label || 'Alarm',
+    body,
+    data: {
+      action: 'startMyDay',
+      type,
+      alarmId: alarm.id,
+      ...(occurrence
+        ? {
+            alarmTime: triggerTime.toISOString(),
+            // The occurrence at the alarm's set time, before any smart wake shift
+            occurrenceTime: occurrence.toISOString(),
+          }
+        : { repeats: true, hour: alarm.hour, minute: alarm.minute }),
+      repeatRule: JSON.stringify(alarm.repeat),
+      timeZone: alarm.timeZone,
+      soundId: sound.id,
+      snoozeCount,
+      escalationStep,
+    },
+    sound: getNotificationSound(sound),
+    // Add categoryIdentifier for actions
+    categoryIdentifier: canSnooze(alarm, snoozeCount) ? ALARM_CATEGORY : ALARM_FINAL_CATEGORY,
+    interruptionLevel: 'critical', // Critical alert for iOS
+    priority: 'max', // Maximum priority for Android
+    // Make the notification sticky on Android
+    sticky: Platform.OS === 'android',
+    autoDismiss: false,
+  };
+}
+
+// "Time to wind down" reminder ahead of the occurrence ringing at `wakeTime`
+export function buildBedtimeContent(alarm: AlarmConfig, wakeTime: Date): Notifications.NotificationContentInput {
+  const bedtime = getBedtime(alarm.bedtime, wakeTime);
+  return {
+    title: 'Time to wind down',
+    body: `Go to bed by ${format(bedtime, 'h:mm a')} to get ${formatSleepGoal(alarm.bedtime.sleepMinutes)} of sleep before ${alarm.label || 'your alarm'}.`,
+    data: {
+      type: 'bedtime',
+      alarmId: alarm.id,
+      alarmTime: wakeTime.toISOString(),
+    },
+  };
+}
+
+// The occurrence a fired alarm notification belongs to. Repeating triggers ring
+// on many days, so theirs is the set time on the day they fired.
+export function getNotificationOccurrence(data: Record<string, any>, firedAt: Date): Date {
+  const time = data.occurrenceTime ?? data.alarmTime;
+  if (time) return new Date(time);
+  if (data.hour === undefined) return firedAt;
+
+  const occurrence = new Date(firedAt);
+  occurrence.setHours(data.hour, data.minute, 0, 0);
+  return occurrence;
+}
+
+// Pick the trigger(s) that match the alarm's repeat rule. Weekly rules get one
+// repeating trigger per day; "every N days" can't be expressed natively, so it
+// is scheduled one occurrence at a time and advanced after each firing. Smart
+// wake alarms are also scheduled one occurrence at a time, since each morning
+// may be shifted differently, and so are home time zone alarms, because native
+// repeating triggers follow the device's clock, and alarms with skipped days ahead.
+export function buildAlarmTriggers(
+  alarm: AlarmConfig,
+  now: Date,
+  skips: SkipRules = NO_SKIPS
+): { date: Date; occurrence: Date; repeats?: boolean; trigger: Notifications.NotificationTriggerInput }[] {
+  const { repeat } = alarm;
+  const occurrence = getNextActiveOccurrence(alarm, now, skips);
+  const nextTrigger = getScheduledTriggerDate(alarm, now, skips);
+
+  // Dated alarms and timers that have already rung have nothing left to schedule
+  if (nextTrigger.getTime() <= now.getTime()) {
+    return [];
+  }
+
+  if (repeat.type === 'timer') {
+    return [
+      {
+        date: occurrence,
+        occurrence,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, Math.round((occurrence.getTime() - now.getTime()) / 1000)),
+        },
+      },
+    ];
+  }
+
+  if (alarm.smartWake.enabled || alarm.timeZone || hasSkipsAhead(alarm, now, skips)) {
+    return [
+      {
+        date: nextTrigger,
+        occurrence,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: nextTrigger,
+        },
+      },
+    ];
+  }
+
+  if (repeat.type === 'weekly' && repeat.days.length > 0) {
+    return repeat.days.map((day) => {
+      const date = getNextTriggerDate({ ...alarm, repeat: { type: 'weekly', days: [day] } }, now);
+      return {
+        date,
+        occurrence: date,
+        repeats: true,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          weekday: day + 1, // expo-notifications counts weekdays from 1 = Sunday
+          hour: alarm.hour,
+          minute: alarm.minute,
+        },
+      };
+    });
+  }
+
+  if (repeat.type === 'interval' && repeat.everyDays <= 1) {
+    return [
+      {
+        date: nextTrigger,
+        occurrence,
+        repeats: true,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DAILY,
+          hour: alarm.hour,
+          minute: alarm.minute,
+        },
+      },
+    ];
+  }
+
+  return [
+    {
+      date: nextTrigger,
+      occurrence,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: nextTrigger,
+      },
+    },
+  ];
+}
+
+export interface AlarmReconciliation {
+  // Enabled alarms whose notification is missing or no longer matches the alarm
+  needsSchedule: AlarmConfig[];
+  // One-off, dated and timer alarms that already rang while the app wasn't running
+  expired: AlarmConfig[];
+  // Alarm and bedtime notifications that no longer belong to an enabled alarm
+  orphanedIds: string[];
+}
+
+// Whether a scheduled notification still reflects the alarm's current settings
+function isNotificationCurrent(alarm: AlarmConfig, request: Notifications.NotificationRequest) {
+  const data = request.content.data ?? {};
+  const matchesAlarm =
+    data.soundId === getAlarmSound(alarm.soundId).id &&
+    data.repeatRule === JSON.stringify(alarm.repeat) &&
+    (data.timeZone ?? null) === alarm.timeZone &&
+    request.content.title === (alarm.label || 'Alarm');
+
+  // Repeating triggers follow the device clock, so only the set time can go stale
+  if (data.repeats) {
+    return matchesAlarm && data.hour === alarm.hour && data.minute === alarm.minute;
+  }
+
+  const occurrence = new Date(data.occurrenceTime ?? data.alarmTime);
+  const adjustment = getActiveAdjustment(alarm, occurrence);
+  const expectedTime = adjustment ? adjustment.triggerAt : occurrence.toISOString();
+  // Device-time alarms go stale here after travel, since the occurrence no longer
+  // falls on the alarm's hour in the new zone
+  const wallClock = getWallClockTime(occurrence, alarm.timeZone);
+  return (
+    matchesAlarm &&
+    data.alarmTime === expectedTime &&
+    wallClock.hour === alarm.hour &&
+    wallClock.minute === alarm.minute
+  );
+}
+
+// Compare saved alarms with what the OS still has scheduled
+export function reconcileAlarmNotifications(
+  alarms: AlarmConfig[],
+  scheduled: Notifications.NotificationRequest[],
+  now: Date = new Date()
+): AlarmReconciliation {
+  const alarmRequests = scheduled.filter((request) => request.content.data?.type === 'alarm');
+  const needsSchedule: AlarmConfig[] = [];
+  const expired: AlarmConfig[] = [];
+  const keptIds = new Set<string>();
+
+  for (const alarm of alarms) {
+    if (!alarm.enabled) continue;
+
+    const requests = alarmRequests.filter((request) => alarm.notificationIds.includes(request.identifier));
+    const isComplete = requests.length > 0 && requests.length === alarm.notificationIds.length;
+    if (isComplete && requests.every((request) => isNotificationCurrent(alarm, request))) {
+      requests.forEach((request) => keptIds.add(request.identifier));
+    } else if (
+      requests.length === 0 &&
+      !isRepeating(alarm.repeat) &&
+      alarm.nextTriggerAt &&
+      new Date(alarm.nextTriggerAt).getTime() <= now.getTime()
+    ) {
+      expired.push(alarm);
+    } else {
+      needsSchedule.push(alarm);
+    }
+  }
+
+  // Wind-down reminders are rescheduled along with their alarm, so only ones
+  // that lost their alarm need cleaning up
+  for (const alarm of alarms) {
+    if (alarm.enabled && alarm.bedtimeNotificationId) {
+      keptIds.add(alarm.bedtimeNotificationId);
+    }
+  }
+
+  const orphanedIds = scheduled
+    .filter((request) => request.content.data?.type === 'alarm' || request.content.data?.type === 'bedtime')
+    .map((request) => request.identifier)
+    .filter((identifier) => !keptIds.has(identifier));
+
+  return { needsSchedule, expired, orphanedIds };
+}
@@ -0,0 +1,255 @@
+import * as Notifications from 'expo-notifications';
+import { AlarmConfig, NO_SKIPS, SkipRules, getNextActiveOccurrence, getScheduledTriggerDate } from '~/lib/alarms';
+import {
+  AlarmReconciliation,
+  buildAlarmContent,
+  buildAlarmTriggers,
+  buildBedtimeContent,
+  reconcileAlarmNotifications,
+} from '~/lib/alarmNotifications';
+import { EscalationEntry, getEscalationTimes } from '~/lib/escalation';
+import { getWindDownTime } from '~/lib/bedtime';
+import { getSkipRules } from '~/lib/alarmStore';
+
+const END_OF_TIME = new Date(8640000000000000);
+
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+// The parts of expo-notifications the scheduler uses, so tests can swap in a fake
+export interface NotificationsAdapter {
+  scheduleNotificationAsync: (request: Notifications.NotificationRequestInput) => Promise<string>;
+  cancelScheduledNotificationAsync: (identifier: string) => Promise<void>;
+  getAllScheduledNotificationsAsync: () => Promise<Notifications.NotificationRequest[]>;
+}
+
+export const expoNotificationsAdapter: NotificationsAdapter = {
+  scheduleNotificationAsync: (request) => Notifications.scheduleNotificationAsync(request),
+  cancelScheduledNotificationAsync: (identifier) => Notifications.cancelScheduledNotificationAsync(identifier),
+  getAllScheduledNotificationsAsync: () => Notifications.getAllScheduledNotificationsAsync(),
+};
+
+// Alarm fields that change when it is (re)scheduled, ready to pass to updateAlarm
+export type ScheduledAlarm = Required<Pick<AlarmConfig, 'notificationIds' | 'nextTriggerAt' | 'escalations'>> &
+  Pick<AlarmConfig, 'bedtimeNotificationId'>;
+
+export interface UpcomingAlarm {
+  alarm: AlarmConfig;
+  triggerAt: Date;
+  // Negative when the alarm rang within the grace period
+  secondsUntil: number;
+}
+
+export interface AlarmScheduler {
+  // When the alarm will next ring, after `from` (or now) and never in the past
+  getNextTrigger: (alarm: AlarmConfig, from?: Date) => Date;
+  scheduleAlarm: (alarm: AlarmConfig, from?: Date) => Promise<ScheduledAlarm>;
+  cancelAlarm: (alarm: AlarmConfig) => Promise<void>;
+  scheduleSnooze: (alarm: AlarmConfig, snoozeCount: number, occurrence?: Date) => Promise<string>;
+  cancelSnooze: (alarm: AlarmConfig) => Promise<void>;
+  // Stop the follow-up ladder for occurrences up to `until` (all of them by default)
+  // and return the entries that are left
+  cancelEscalations: (alarm: AlarmConfig, until?: Date) => Promise<EscalationEntry[]>;
+  // Cancel notifications that don't belong to an enabled alarm and report the rest
+  reconcile: (alarms: AlarmConfig[]) => Promise<AlarmReconciliation>;
+  // Enabled alarms ringing in the next `withinSeconds`, or in the last `graceSeconds`
+  getUpcomingAlarms: (alarms: AlarmConfig[], withinSeconds: number, graceSeconds?: number) => UpcomingAlarm[];
+}
+
+interface AlarmSchedulerOptions {
+  clock?: Clock;
+  notifications?: NotificationsAdapter;
+  // Vacation and holiday days to leave out, read each time an alarm is scheduled
+  getSkipRules?: () => SkipRules;
+}
+
+export function createAlarmScheduler({
+  clock = systemClock,
+  notifications = expoNotificationsAdapter,
+  getSkipRules = () => NO_SKIPS,
+}: AlarmSchedulerOptions = {}): AlarmScheduler {
+  // Never schedule from a point that has already passed
+  const getStart = (from?: Date) => {
+    const now = clock.now();
+    return from && from.getTime() > now.getTime() ? from : now;
+  };
+
+  const cancelEntry = async (entry: EscalationEntry) => {
+    for (const identifier of entry.ids) {
+      await notifications.cancelScheduledNotificationAsync(identifier);
+    }
+    console.log(`Canceled escalation for occurrence ${entry.occurrence}`);
+  };
+
+  // Schedule the follow-up ladder for one occurrence, each step with a harsher sound
+  const scheduleEscalation = async (
+    alarm: AlarmConfig,
+    triggerTime: Date,
+    occurrence: Date
+  ): Promise<EscalationEntry | undefined> => {
+    const times = getEscalationTimes(alarm.escalation, triggerTime);
+    if (times.length === 0) return undefined;
+
+    const ids: string[] = [];
+    for (const [index, date] of times.entries()) {
+      ids.push(
+        await notifications.scheduleNotificationAsync({
+          content: buildAlarmContent(alarm, date, 0, occurrence, index + 1),
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date,
+          },
+        })
+      );
+    }
+
+    return { occurrence: occurrence.toISOString(), ids };
+  };
+
+  // Cancel follow-ups for occurrences at or after `from`, which are about to be
+  // rescheduled, while keeping the ladder of an alarm that is ringing right now
+  const replaceUpcomingEscalations = async (alarm: AlarmConfig, from: Date, next?: EscalationEntry) => {
+    const kept: EscalationEntry[] = [];
+    for (const entry of alarm.escalations) {
+      if (new Date(entry.occurrence).getTime() >= from.getTime()) {
+        await cancelEntry(entry);
+      } else {
+        kept.push(entry);
+      }
+    }
+    return next ? [...kept, next] : kept;
+  };
+
+  const cancelEscalations = async (alarm: AlarmConfig, until: Date = END_OF_TIME) => {
+    const kept: EscalationEntry[] = [];
+    for (const entry of alarm.escalations) {
+      if (new Date(entry.occurrence).getTime() <= until.getTime()) {
+        await cancelEntry(entry);
+      } else {
+        kept.push(entry);
+      }
+    }
+    return kept;
+  };
+
+  const cancelAlarm = async (alarm: AlarmConfig) => {
+    for (const identifier of alarm.notificationIds) {
+      await notifications.cancelScheduledNotificationAsync(identifier);
+      console.log('Canceled notification:', identifier);
+    }
+    if (alarm.bedtimeNotificationId) {
+      await notifications.cancelScheduledNotificationAsync(alarm.bedtimeNotificationId);
+      console.log('Canceled bedtime reminder:', alarm.bedtimeNotificationId);
+    }
+  };
+
+  // Remind the user to wind down ahead of the next ring, unless that moment has passed
+  const scheduleBedtime = async (alarm: AlarmConfig, wakeTime: Date, start: Date) => {
+    if (!alarm.bedtime.enabled) return undefined;
+
+    const date = getWindDownTime(alarm.bedtime, wakeTime);
+    if (date.getTime() <= start.getTime()) return undefined;
+
+    return notifications.scheduleNotificationAsync({
+      content: buildBedtimeContent(alarm, wakeTime),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date,
+      },
+    });
+  };
+
+  const getNextTrigger = (alarm: AlarmConfig, from?: Date) =>
+    getScheduledTriggerDate(alarm, getStart(from), getSkipRules());
+
+  const scheduleAlarm = async (alarm: AlarmConfig, from?: Date): Promise<ScheduledAlarm> => {
+    const start = getStart(from);
+    const skips = getSkipRules();
+    await cancelAlarm(alarm);
+
+    const nextTrigger = getScheduledTriggerDate(alarm, start, skips);
+    const notificationIds: string[] = [];
+    for (const { date, occurrence, repeats, trigger } of buildAlarmTriggers(alarm, start, skips)) {
+      notificationIds.push(
+        await notifications.scheduleNotificationAsync({
+          content: buildAlarmContent(alarm, date, 0, repeats ? null : occurrence),
+          trigger,
+        })
+      );
+    }
+
+    // A dated alarm or timer that has already rung gets no follow-ups either
+    const escalation =
+      nextTrigger.getTime() > start.getTime()
+        ? await scheduleEscalation(alarm, nextTrigger, getNextActiveOccurrence(alarm, start, skips))
+        : undefined;
+    const escalations = await replaceUpcomingEscalations(alarm, start, escalation);
+    const bedtimeNotificationId = await scheduleBedtime(alarm, nextTrigger, start);
+
+    return { notificationIds, nextTriggerAt: nextTrigger.toISOString(), escalations, bedtimeNotificationId };
+  };
+
+  const scheduleSnooze = async (alarm: AlarmConfig, snoozeCount: number, occurrence?: Date) => {
+    const seconds = Math.max(1, alarm.snoozeMinutes) * 60;
+    const triggerTime = new Date(clock.now().getTime() + seconds * 1000);
+    return notifications.scheduleNotificationAsync({
+      // Keep the original occurrence so the snooze chain stays tied to one morning
+      content: buildAlarmContent(alarm, triggerTime, snoozeCount, occurrence ?? triggerTime),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds,
+      },
+    });
+  };
+
+  const cancelSnooze = async (alarm: AlarmConfig) => {
+    if (alarm.snoozeNotificationId) {
+      await notifications.cancelScheduledNotificationAsync(alarm.snoozeNotificationId);
+      console.log('Canceled snooze notification:', alarm.snoozeNotificationId);
+    }
+  };
+
+  const reconcile = async (alarms: AlarmConfig[]) => {
+    const scheduled = await notifications.getAllScheduledNotificationsAsync();
+    const result = reconcileAlarmNotifications(alarms, scheduled, clock.now());
+
+    for (const identifier of result.orphanedIds) {
+      await notifications.cancelScheduledNotificationAsync(identifier);
+      console.log('Canceled orphaned notification:', identifier);
+    }
+    return result;
+  };
+
+  const getUpcomingAlarms = (alarms: AlarmConfig[], withinSeconds: number, graceSeconds: number = 10) => {
+    const now = clock.now();
+    const since = new Date(now.getTime() - graceSeconds * 1000);
+    const skips = getSkipRules();
+
+    return alarms
+      .filter((alarm) => alarm.enabled)
+      .map((alarm) => {
+        const triggerAt = getScheduledTriggerDate(alarm, since, skips);
+        return { alarm, triggerAt, secondsUntil: (triggerAt.getTime() - now.getTime()) / 1000 };
+      })
+      .filter(({ secondsUntil }) => secondsUntil < withinSeconds && secondsUntil >= -graceSeconds)
+      .sort((a, b) => a.triggerAt.getTime() - b.triggerAt.getTime());
+  };
+
+  return {
+    getNextTrigger,
+    scheduleAlarm,
+    cancelAlarm,
+    scheduleSnooze,
+    cancelSnooze,
+    cancelEscalations,
+    reconcile,
+    getUpcomingAlarms,
+  };
+}
+
+export const alarmScheduler = createAlarmScheduler({ getSkipRules });
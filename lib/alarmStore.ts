@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  AlarmConfig,
+  AlarmDraft,
+  DEFAULT_HOLIDAYS,
+  DEFAULT_SMART_WAKE,
+  HolidaySettings,
+  SkipRules,
+  VacationRange,
+  DEFAULT_SNOOZE_MINUTES,
+  createAlarmId,
+} from '~/lib/alarms';
+import { DEFAULT_CHALLENGE } from '~/lib/challenges';
+import { DEFAULT_VOLUME_RAMP } from '~/lib/volumeRamp';
+import { waitForSoundHydration } from '~/lib/soundStore';
+import { DEFAULT_ESCALATION } from '~/lib/escalation';
+import { DEFAULT_BEDTIME } from '~/lib/bedtime';
+import { normalizeRoutine } from '~/lib/routine';
+
+interface AlarmState {
+  alarms: AlarmConfig[];
+  // Device time zone the alarms were last scheduled in
+  timeZone: string | null;
+  setTimeZone: (timeZone: string) => void;
+  // Recurring alarms stay quiet during the vacation and on holidays
+  vacation: VacationRange | null;
+  holidaySettings: HolidaySettings;
+  // Upcoming holidays found in the calendar (yyyy-MM-dd)
+  holidays: string[];
+  setVacation: (vacation: VacationRange | null) => void;
+  setHolidaySettings: (settings: HolidaySettings) => void;
+  setHolidays: (holidays: string[]) => void;
+  addAlarm: (draft: AlarmDraft) => AlarmConfig;
+  updateAlarm: (id: string, changes: Partial<Omit<AlarmConfig, 'id'>>) => void;
+  removeAlarm: (id: string) => void;
+}
+
+// Alarms are saved to AsyncStorage so they survive app restarts and reboots
+export const useAlarmStore = create<AlarmState>()(
+  persist(
+    (set) => ({
+      alarms: [],
+      timeZone: null,
+      setTimeZone: (timeZone) => set({ timeZone }),
+      vacation: null,
+      holidaySettings: DEFAULT_HOLIDAYS,
+      holidays: [],
+      setVacation: (vacation) => set({ vacation }),
+      setHolidaySettings: (holidaySettings) => set({ holidaySettings }),
+      setHolidays: (holidays) => set({ holidays }),
+      addAlarm: (draft) => {
+        const alarm: AlarmConfig = { ...draft, id: createAlarmId(), notificationIds: [], escalations: [] };
+        set((state) => ({ alarms: [...state.alarms, alarm] }));
+        return alarm;
+      },
+      updateAlarm: (id, changes) =>
+        set((state) => ({
+          alarms: state.alarms.map((alarm) => (alarm.id === id ? { ...alarm, ...changes } : alarm)),
+        })),
+      removeAlarm: (id) =>
+        set((state) => ({ alarms: state.alarms.filter((alarm) => alarm.id !== id) })),
+    }),
+    {
+      name: 'alarms',
+      version: 10,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        alarms: state.alarms,
+        timeZone: state.timeZone,
+        vacation: state.vacation,
+        holidaySettings: state.holidaySettings,
+        holidays: state.holidays,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as { alarms: AlarmConfig[] };
+        if (version < 2) {
+          // Alarms saved before recurrence existed were one-off alarms
+          state.alarms = state.alarms.map((alarm) => ({ ...alarm, repeat: alarm.repeat ?? { type: 'once' } }));
+        }
+        if (version < 3) {
+          state.alarms = state.alarms.map((alarm) => ({
+            ...alarm,
+            snoozeMinutes: alarm.snoozeMinutes ?? DEFAULT_SNOOZE_MINUTES,
+            maxSnoozes: alarm.maxSnoozes ?? null,
+          }));
+        }
+        if (version < 4) {
+          state.alarms = state.alarms.map((alarm) => ({
+            ...alarm,
+            smartWake: alarm.smartWake ?? DEFAULT_SMART_WAKE,
+          }));
+        }
+        if (version < 5) {
+          state.alarms = state.alarms.map((alarm) => ({
+            ...alarm,
+            challenge: alarm.challenge ?? DEFAULT_CHALLENGE,
+          }));
+        }
+        if (version < 6) {
+          state.alarms = state.alarms.map((alarm) => ({
+            ...alarm,
+            volumeRamp: alarm.volumeRamp ?? DEFAULT_VOLUME_RAMP,
+          }));
+        }
+        if (version < 7) {
+          state.alarms = state.alarms.map((alarm) => ({
+            ...alarm,
+            escalation: alarm.escalation ?? DEFAULT_ESCALATION,
+            escalations: alarm.escalations ?? [],
+          }));
+        }
+        if (version < 8) {
+          // Existing alarms keep following the device's time zone
+          state.alarms = state.alarms.map((alarm) => ({ ...alarm, timeZone: alarm.timeZone ?? null }));
+        }
+        if (version < 9) {
+          state.alarms = state.alarms.map((alarm) => ({ ...alarm, bedtime: alarm.bedtime ?? DEFAULT_BEDTIME }));
+        }
+        if (version < 10) {
+          // The routine used to be calendar summary followed by the podcast for every alarm
+          state.alarms = state.alarms.map((alarm) => ({ ...alarm, routine: normalizeRoutine(alarm.routine) }));
+        }
+        return state;
+      },
+    }
+  )
+);
+
+// Days the scheduler should leave out of recurring alarms
+export function getSkipRules(): SkipRules {
+  const { vacation, holidays } = useAlarmStore.getState();
+  return { vacation, holidays };
+}
+
+// Read the latest copy of an alarm outside of React render
+export function getAlarmById(id: string): AlarmConfig | undefined {
+  return useAlarmStore.getState().alarms.find((alarm) => alarm.id === id);
+}
+
+// Resolve once the persisted alarms have been loaded from storage
+export function waitForAlarmHydration(): Promise<void> {
+  // Alarms can refer to imported sounds, which live in their own store
+  const sounds = waitForSoundHydration();
+  if (useAlarmStore.persist.hasHydrated()) {
+    return sounds;
+  }
+  return new Promise<void>((resolve) => {
+    const unsubscribe = useAlarmStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  }).then(() => sounds);
+}
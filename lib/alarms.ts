@@ -0,0 +1,363 @@
+import { TZDate, tz } from '@date-fns/tz';
+import { addDays, addMinutes, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { DEFAULT_CHALLENGE, DismissChallengeSettings } from '~/lib/challenges';
+import { ALARM_SOUNDS } from '~/lib/sounds';
+import { DEFAULT_VOLUME_RAMP, VolumeRampSettings } from '~/lib/volumeRamp';
+import { DEFAULT_ESCALATION, EscalationEntry, EscalationSettings } from '~/lib/escalation';
+import { BedtimeSettings, DEFAULT_BEDTIME } from '~/lib/bedtime';
+import { DEFAULT_ROUTINE, RoutineStepConfig } from '~/lib/routine';
+
+// Day numbers follow Date.getDay(): 0 = Sunday ... 6 = Saturday
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type AlarmRepeat =
+  | { type: 'once' }
+  | { type: 'weekly'; days: number[] }
+  // Fires every N days counting from startDate (yyyy-MM-dd, in the alarm's time zone)
+  | { type: 'interval'; everyDays: number; startDate: string }
+  // Rings once on a specific day (yyyy-MM-dd, in the alarm's time zone)
+  | { type: 'date'; date: string }
+  // Nap timer that rings `minutes` after it was started, at endsAt (ISO string)
+  | { type: 'timer'; minutes: number; endsAt: string };
+
+// What the alarm dialog edits: a time of day, a specific date, or a nap timer
+export type AlarmKind = 'time' | 'date' | 'timer';
+
+export const NAP_MINUTES = [10, 15, 20, 25, 30, 45, 60, 90];
+export const DEFAULT_NAP_MINUTES = 25;
+
+export interface SmartWakeSettings {
+  enabled: boolean;
+  // Wake at least this many minutes before the first event of the day
+  leadMinutes: number;
+}
+
+// An occurrence moved earlier because of an early calendar event
+export interface SmartWakeAdjustment {
+  // The occurrence that was moved, at the alarm's set time (ISO string)
+  occurrence: string;
+  // When the alarm will actually ring (ISO string)
+  triggerAt: string;
+  eventTitle: string;
+  eventStart: string;
+}
+
+export interface AlarmConfig {
+  id: string;
+  hour: number;
+  minute: number;
+  label: string;
+  soundId: string;
+  enabled: boolean;
+  repeat: AlarmRepeat;
+  // Fixed IANA zone for "home time" alarms that ignore travel; null follows the device
+  timeZone: string | null;
+  snoozeMinutes: number;
+  // Number of snoozes allowed before the alarm must be dismissed (null = unlimited)
+  maxSnoozes: number | null;
+  smartWake: SmartWakeSettings;
+  // Task that must be completed before the alarm can be dismissed
+  challenge: DismissChallengeSettings;
+  volumeRamp: VolumeRampSettings;
+  escalation: EscalationSettings;
+  // Follow-up notifications for occurrences that haven't been dismissed yet
+  escalations: EscalationEntry[];
+  // Sleep goal and the wind-down reminder before it
+  bedtime: BedtimeSettings;
+  // What "Start My Day" runs after the alarm is dismissed
+  routine: RoutineStepConfig[];
+  smartWakeAdjustment?: SmartWakeAdjustment;
+  // Identifiers of the notifications currently scheduled for this alarm
+  notificationIds: string[];
+  // Next occurrence the notifications were scheduled for (ISO string)
+  nextTriggerAt?: string;
+  // Follow-up notification scheduled by the last snooze
+  snoozeNotificationId?: string;
+  // Wind-down reminder scheduled for the next occurrence
+  bedtimeNotificationId?: string;
+  // Occurrence the user chose to skip with "Skip next" (ISO string)
+  skippedOccurrence?: string;
+}
+
+// Days off in device time (yyyy-MM-dd, both ends included)
+export interface VacationRange {
+  start: string;
+  end: string;
+}
+
+export interface HolidaySettings {
+  enabled: boolean;
+  // Matched against the titles of all-day calendar events
+  keywords: string[];
+}
+
+// Days that recurring alarms leave out of their schedule
+export interface SkipRules {
+  vacation: VacationRange | null;
+  // Days with an all-day event matching the holiday keywords (yyyy-MM-dd)
+  holidays: string[];
+}
+
+export type AlarmDraft = Omit<
+  AlarmConfig,
+  | 'id'
+  | 'notificationIds'
+  | 'nextTriggerAt'
+  | 'snoozeNotificationId'
+  | 'bedtimeNotificationId'
+  | 'skippedOccurrence'
+  | 'smartWakeAdjustment'
+  | 'escalations'
+>;
+
+export const DEFAULT_SNOOZE_MINUTES = 9;
+export const DEFAULT_SMART_WAKE: SmartWakeSettings = { enabled: false, leadMinutes: 60 };
+export const DEFAULT_HOLIDAYS: HolidaySettings = { enabled: false, keywords: ['Holiday', 'OOO', 'Vacation'] };
+export const NO_SKIPS: SkipRules = { vacation: null, holidays: [] };
+
+// Enough for a daily alarm to sit out a year-long vacation
+const MAX_SKIPPED_OCCURRENCES = 366;
+
+export function createAlarmId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Default values for the "Add Alarm" dialog
+export function createAlarmDraft(now: Date = new Date()): AlarmDraft {
+  return {
+    hour: now.getHours(),
+    minute: now.getMinutes(),
+    label: '',
+    soundId: ALARM_SOUNDS[0].id,
+    enabled: true,
+    repeat: { type: 'once' },
+    timeZone: null,
+    snoozeMinutes: DEFAULT_SNOOZE_MINUTES,
+    maxSnoozes: null,
+    smartWake: DEFAULT_SMART_WAKE,
+    challenge: DEFAULT_CHALLENGE,
+    volumeRamp: DEFAULT_VOLUME_RAMP,
+    escalation: DEFAULT_ESCALATION,
+    bedtime: DEFAULT_BEDTIME,
+    routine: DEFAULT_ROUTINE,
+  };
+}
+
+// Build a Date for today at the alarm's hour and minute
+export function getAlarmDate(alarm: Pick<AlarmConfig, 'hour' | 'minute'>, base: Date = new Date()): Date {
+  const date = new Date(base);
+  date.setHours(alarm.hour, alarm.minute, 0, 0);
+  return date;
+}
+
+type AlarmTime = Pick<AlarmConfig, 'hour' | 'minute' | 'repeat'> & Partial<Pick<AlarmConfig, 'timeZone'>>;
+
+// Next time the alarm should fire strictly after `now`. Days are counted in the
+// alarm's own time zone when it has one, so the wall-clock time survives DST and travel.
+export function getNextTriggerDate(alarm: AlarmTime, now: Date = new Date()): Date {
+  const { repeat, timeZone } = alarm;
+  const context = timeZone ? tz(timeZone) : undefined;
+  const zonedNow = timeZone ? new TZDate(now, timeZone) : now;
+  // Set the alarm's hour on the given day; the result is always a plain Date
+  const at = (day: Date) => {
+    const date = timeZone ? new TZDate(day, timeZone) : new Date(day);
+    date.setHours(alarm.hour, alarm.minute, 0, 0);
+    return date;
+  };
+  const toDate = (date: Date) => new Date(date.getTime());
+
+  // Dated alarms and timers have a single occurrence, which may already be in the past
+  if (repeat.type === 'timer') {
+    return new Date(repeat.endsAt);
+  }
+  if (repeat.type === 'date') {
+    return toDate(at(parseISO(repeat.date, { in: context })));
+  }
+
+  if (repeat.type === 'weekly' && repeat.days.length > 0) {
+    for (let offset = 0; offset <= 7; offset++) {
+      const candidate = at(addDays(zonedNow, offset));
+      if (repeat.days.includes(candidate.getDay()) && candidate.getTime() > now.getTime()) {
+        return toDate(candidate);
+      }
+    }
+  }
+
+  if (repeat.type === 'interval') {
+    const everyDays = Math.max(1, repeat.everyDays);
+    const start = at(parseISO(repeat.startDate, { in: context }));
+    if (start.getTime() > now.getTime()) {
+      return toDate(start);
+    }
+    // Jump to the cycle containing today, then step forward until it's ahead of now
+    const elapsed = differenceInCalendarDays(zonedNow, start, { in: context });
+    let candidate = at(addDays(start, elapsed - (elapsed % everyDays)));
+    while (candidate.getTime() <= now.getTime()) {
+      candidate = at(addDays(candidate, everyDays));
+    }
+    return toDate(candidate);
+  }
+
+  // One-off alarms fire today if still ahead, otherwise tomorrow
+  const today = at(zonedNow);
+  if (today.getTime() <= now.getTime()) {
+    return toDate(at(addDays(zonedNow, 1)));
+  }
+  return toDate(today);
+}
+
+// Wall-clock hour and minute of `date` in the given zone (device time when null)
+export function getWallClockTime(date: Date, timeZone: string | null) {
+  const local = timeZone ? new TZDate(date, timeZone) : date;
+  return { hour: local.getHours(), minute: local.getMinutes() };
+}
+
+// The smart wake adjustment that applies to the given occurrence, if any
+export function getActiveAdjustment(
+  alarm: Pick<AlarmConfig, 'smartWake' | 'smartWakeAdjustment'>,
+  occurrence: Date
+): SmartWakeAdjustment | undefined {
+  const adjustment = alarm.smartWakeAdjustment;
+  if (!alarm.smartWake.enabled || !adjustment) return undefined;
+  return new Date(adjustment.occurrence).getTime() === occurrence.getTime() ? adjustment : undefined;
+}
+
+export function isOccurrenceSkipped(
+  alarm: Pick<AlarmConfig, 'repeat' | 'skippedOccurrence'>,
+  occurrence: Date,
+  skips: SkipRules
+): boolean {
+  if (alarm.skippedOccurrence && new Date(alarm.skippedOccurrence).getTime() === occurrence.getTime()) {
+    return true;
+  }
+  // Vacations and holidays only pause recurring alarms; one-offs were set on purpose
+  if (!isRepeating(alarm.repeat)) return false;
+
+  const day = format(occurrence, 'yyyy-MM-dd');
+  if (skips.vacation && day >= skips.vacation.start && day <= skips.vacation.end) return true;
+  return skips.holidays.includes(day);
+}
+
+// Next occurrence strictly after `now` that isn't skipped
+export function getNextActiveOccurrence(
+  alarm: AlarmTime & Pick<AlarmConfig, 'skippedOccurrence'>,
+  now: Date = new Date(),
+  skips: SkipRules = NO_SKIPS
+): Date {
+  let occurrence = getNextTriggerDate(alarm, now);
+  for (let i = 0; i < MAX_SKIPPED_OCCURRENCES && isOccurrenceSkipped(alarm, occurrence, skips); i++) {
+    occurrence = getNextTriggerDate(alarm, occurrence);
+  }
+  return occurrence;
+}
+
+// Whether a skip lies ahead, which native repeating triggers can't leave out
+export function hasSkipsAhead(
+  alarm: Pick<AlarmConfig, 'repeat' | 'skippedOccurrence'>,
+  now: Date,
+  skips: SkipRules
+): boolean {
+  if (alarm.skippedOccurrence && new Date(alarm.skippedOccurrence).getTime() > now.getTime()) {
+    return true;
+  }
+  if (!isRepeating(alarm.repeat)) return false;
+
+  const today = format(now, 'yyyy-MM-dd');
+  return (skips.vacation !== null && skips.vacation.end >= today) || skips.holidays.some((day) => day >= today);
+}
+
+// When the next occurrence will actually ring, taking skipped days and smart wake into account
+export function getScheduledTriggerDate(
+  alarm: AlarmConfig,
+  now: Date = new Date(),
+  skips: SkipRules = NO_SKIPS
+): Date {
+  const occurrence = getNextActiveOccurrence(alarm, now, skips);
+  const adjustment = getActiveAdjustment(alarm, occurrence);
+  if (adjustment && new Date(adjustment.triggerAt).getTime() > now.getTime()) {
+    return new Date(adjustment.triggerAt);
+  }
+  return occurrence;
+}
+
+// Anchor an interval rule on the next time the alarm would ring
+export function createIntervalRepeat(
+  alarm: Pick<AlarmConfig, 'hour' | 'minute'> & Partial<Pick<AlarmConfig, 'timeZone'>>,
+  everyDays: number,
+  now: Date = new Date()
+): AlarmRepeat {
+  const first = getNextTriggerDate({ ...alarm, repeat: { type: 'once' } }, now);
+  const context = alarm.timeZone ? tz(alarm.timeZone) : undefined;
+  return { type: 'interval', everyDays, startDate: format(first, 'yyyy-MM-dd', { in: context }) };
+}
+
+// Whether the alarm may be snoozed again after `snoozeCount` snoozes
+export function canSnooze(alarm: Pick<AlarmConfig, 'maxSnoozes'>, snoozeCount: number): boolean {
+  return alarm.maxSnoozes === null || snoozeCount < alarm.maxSnoozes;
+}
+
+// Start (or restart) a nap timer, keeping the alarm's time in step with when it rings
+export function startTimer(
+  minutes: number,
+  now: Date = new Date()
+): Pick<AlarmConfig, 'hour' | 'minute' | 'repeat'> {
+  const endsAt = addMinutes(now, minutes);
+  return {
+    hour: endsAt.getHours(),
+    minute: endsAt.getMinutes(),
+    repeat: { type: 'timer', minutes, endsAt: endsAt.toISOString() },
+  };
+}
+
+export function isRepeating(repeat: AlarmRepeat): boolean {
+  return repeat.type === 'interval' || (repeat.type === 'weekly' && repeat.days.length > 0);
+}
+
+// Dated alarms and nap timers only ring once and then remove themselves
+export function isSelfDeleting(repeat: AlarmRepeat): boolean {
+  return repeat.type === 'date' || repeat.type === 'timer';
+}
+
+export function getAlarmKind(repeat: AlarmRepeat): AlarmKind {
+  if (repeat.type === 'date' || repeat.type === 'timer') return repeat.type;
+  return 'time';
+}
+
+// Human readable summary such as "Mon–Fri" or "Every 2 days"
+export function formatRepeat(repeat: AlarmRepeat): string {
+  if (repeat.type === 'interval') {
+    return repeat.everyDays <= 1 ? 'Every day' : `Every ${repeat.everyDays} days`;
+  }
+  if (repeat.type === 'date') {
+    return format(parseISO(repeat.date), 'EEE, MMM d');
+  }
+  if (repeat.type === 'timer') {
+    return `${repeat.minutes} min nap`;
+  }
+  if (repeat.type === 'once' || repeat.days.length === 0) {
+    return 'Once';
+  }
+
+  const days = [...new Set(repeat.days)].sort((a, b) => a - b);
+  if (days.length === 7) return 'Every day';
+  if (days.length === 2 && days[0] === 0 && days[1] === 6) return 'Weekends';
+
+  // Order the week from Monday so Mon–Fri style ranges read naturally
+  const mondayFirst = days.map((day) => (day + 6) % 7).sort((a, b) => a - b);
+  const isRange = mondayFirst.every((day, i) => i === 0 || day === mondayFirst[i - 1] + 1);
+  const names = mondayFirst.map((day) => DAY_NAMES[(day + 1) % 7]);
+  if (isRange && names.length >= 3) {
+    return `${names[0]}–${names[names.length - 1]}`;
+  }
+  return names.join(', ');
+}
+
+// Format time to display in a readable format
+export function formatAlarmTime(alarm: Pick<AlarmConfig, 'hour' | 'minute'>): string {
+  return getAlarmDate(alarm).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
@@ -0,0 +1,36 @@
+import { subMinutes } from 'date-fns';
+
+export interface BedtimeSettings {
+  enabled: boolean;
+  // How long the user wants to sleep before the alarm rings
+  sleepMinutes: number;
+  // The "time to wind down" reminder comes this long before bedtime
+  bufferMinutes: number;
+}
+
+export const DEFAULT_BEDTIME: BedtimeSettings = {
+  enabled: false,
+  sleepMinutes: 8 * 60,
+  bufferMinutes: 30,
+};
+
+// When to be asleep to get the full sleep goal before the alarm rings at `wakeTime`
+export function getBedtime(settings: BedtimeSettings, wakeTime: Date): Date {
+  return subMinutes(wakeTime, settings.sleepMinutes);
+}
+
+export function getWindDownTime(settings: BedtimeSettings, wakeTime: Date): Date {
+  return subMinutes(getBedtime(settings, wakeTime), settings.bufferMinutes);
+}
+
+// "8h" or "7h 30m"
+export function formatSleepGoal(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export function formatBedtime(settings: BedtimeSettings): string {
+  if (!settings.enabled) return 'Off';
+  return `${formatSleepGoal(settings.sleepMinutes)} of sleep, reminder ${settings.bufferMinutes} min before bed`;
+}
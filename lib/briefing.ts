@@ -0,0 +1,376 @@
+import * as Calendar from 'expo-calendar';
+import { addDays, differenceInMinutes, endOfDay, format, formatISO, isMonday, setHours, startOfDay } from 'date-fns';
+import { getEventsBetweenAsync, matchesKeyword } from '~/lib/calendar';
+
+// Timed events read out one by one in the offline summary
+const OFFLINE_LISTED_EVENTS = 4;
+// The offline summary says how long until the first event when it's this close
+const COUNTDOWN_MINUTES = 2 * 60;
+// Tomorrow's events before this hour are previewed for early starts
+const TOMORROW_MORNING_END_HOUR = 12;
+
+// How far ahead the briefing looks. The week ahead is only read out on Mondays,
+// other days get today's events.
+export type BriefingRange = 'today' | 'tomorrowMorning' | 'week';
+
+export const BRIEFING_RANGES: BriefingRange[] = ['today', 'tomorrowMorning', 'week'];
+
+export const DEFAULT_BRIEFING_RANGE: BriefingRange = 'today';
+
+export const BRIEFING_RANGE_INFO: Record<BriefingRange, { title: string; clear: string }> = {
+  today: { title: 'Today', clear: '' },
+  tomorrowMorning: { title: 'Tomorrow morning too', clear: 'Tomorrow morning is clear.' },
+  week: { title: 'Week ahead on Mondays', clear: 'The rest of the week is clear.' },
+};
+
+export type BriefingAvailability = 'busy' | 'free' | 'tentative' | 'unavailable' | 'unknown';
+
+export interface BriefingAttendee {
+  name: string;
+  email: string | null;
+  // accepted, declined, tentative, pending...
+  status: string;
+}
+
+// A calendar event as sent to the summary providers. Times are ISO 8601 with
+// the device's UTC offset, so they read correctly without the time zone.
+export interface BriefingEvent {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  // Time zone the event was created in
+  timeZone: string | null;
+  location: string | null;
+  notes: string | null;
+  calendar: { id: string; title: string | null };
+  recurring: boolean;
+  availability: BriefingAvailability;
+  cancelled: boolean;
+  // The user's own reply to the invitation, if they were invited
+  response: string | null;
+  // Other people invited, without the user
+  attendees: BriefingAttendee[];
+}
+
+// Which events make it into the briefing
+export interface BriefingFilters {
+  excludedCalendarIds: string[];
+  skipDeclined: boolean;
+  skipAllDay: boolean;
+  // Events with any of these in the title are left out
+  titleKeywords: string[];
+}
+
+export const DEFAULT_BRIEFING_FILTERS: BriefingFilters = {
+  excludedCalendarIds: [],
+  skipDeclined: true,
+  skipAllDay: false,
+  titleKeywords: [],
+};
+
+// A stretch of time the briefing covers, usually a whole day
+export interface BriefingWindow {
+  // How the briefing introduces it: "Today", "Tomorrow morning", "Wednesday"
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface BriefingDay {
+  // yyyy-MM-dd
+  date: string;
+  label: string;
+  events: BriefingEvent[];
+}
+
+export interface BriefingPayload {
+  now: string;
+  timeZone: string;
+  range: BriefingRange;
+  days: BriefingDay[];
+}
+
+function toAvailability(availability: Calendar.Availability | undefined): BriefingAvailability {
+  switch (availability) {
+    case Calendar.Availability.BUSY:
+      return 'busy';
+    case Calendar.Availability.FREE:
+      return 'free';
+    case Calendar.Availability.TENTATIVE:
+      return 'tentative';
+    case Calendar.Availability.UNAVAILABLE:
+      return 'unavailable';
+    default:
+      return 'unknown';
+  }
+}
+
+export function createBriefingEvent(
+  event: Calendar.Event,
+  calendarTitle: string | null = null,
+  attendees: Calendar.Attendee[] = []
+): BriefingEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    start: formatISO(new Date(event.startDate)),
+    end: formatISO(new Date(event.endDate)),
+    allDay: event.allDay,
+    timeZone: event.timeZone || null,
+    location: event.location || null,
+    notes: event.notes || null,
+    calendar: { id: event.calendarId, title: calendarTitle },
+    recurring: Boolean(event.recurrenceRule),
+    availability: toAvailability(event.availability),
+    cancelled: event.status === Calendar.EventStatus.CANCELED,
+    response: attendees.find((attendee) => attendee.isCurrentUser)?.status ?? null,
+    attendees: attendees
+      .filter((attendee) => !attendee.isCurrentUser)
+      .map((attendee) => ({ name: attendee.name, email: attendee.email ?? null, status: attendee.status })),
+  };
+}
+
+// Attendees aren't available everywhere (such as on the web), so an event
+// without them is still worth summarising
+async function getAttendeesAsync(event: Calendar.Event): Promise<Calendar.Attendee[]> {
+  try {
+    return await Calendar.getAttendeesForEventAsync(event.id, {
+      instanceStartDate: event.recurrenceRule ? event.startDate : undefined,
+    });
+  } catch (error) {
+    console.warn(`Couldn't read attendees for ${event.title}:`, error);
+    return [];
+  }
+}
+
+export function filterBriefingEvents(events: BriefingEvent[], filters: BriefingFilters): BriefingEvent[] {
+  return events.filter(
+    (event) =>
+      !filters.excludedCalendarIds.includes(event.calendar.id) &&
+      !(filters.skipDeclined && event.response === Calendar.AttendeeStatus.DECLINED) &&
+      !(filters.skipAllDay && event.allDay) &&
+      !matchesKeyword(event.title, filters.titleKeywords)
+  );
+}
+
+export function getBriefingWindows(range: BriefingRange, now: Date): BriefingWindow[] {
+  const today = startOfDay(now);
+  const windows: BriefingWindow[] = [{ label: 'Today', start: today, end: endOfDay(today) }];
+
+  if (range === 'tomorrowMorning') {
+    const tomorrow = addDays(today, 1);
+    windows.push({ label: 'Tomorrow morning', start: tomorrow, end: setHours(tomorrow, TOMORROW_MORNING_END_HOUR) });
+  } else if (range === 'week' && isMonday(now)) {
+    for (let offset = 1; offset < 7; offset++) {
+      const day = addDays(today, offset);
+      windows.push({ label: offset === 1 ? 'Tomorrow' : format(day, 'EEEE'), start: day, end: endOfDay(day) });
+    }
+  }
+  return windows;
+}
+
+// Each event goes under the first window it overlaps, so an event that spans
+// several days is only mentioned once
+export function groupEventsByDay(events: BriefingEvent[], windows: BriefingWindow[]): BriefingDay[] {
+  const days: BriefingDay[] = windows.map((window) => ({
+    date: format(window.start, 'yyyy-MM-dd'),
+    label: window.label,
+    events: [],
+  }));
+
+  for (const event of events) {
+    const start = new Date(event.start);
+    const end = new Date(event.end);
+    const index = windows.findIndex((window) => start <= window.end && end > window.start);
+    if (index >= 0) {
+      days[index].events.push(event);
+    }
+  }
+  return days;
+}
+
+// Events from the calendars chosen for the briefing, grouped by day, asking
+// for calendar permission if needed
+export async function getBriefingDaysAsync(
+  range: BriefingRange = DEFAULT_BRIEFING_RANGE,
+  now: Date = new Date(),
+  filters: BriefingFilters = DEFAULT_BRIEFING_FILTERS
+): Promise<BriefingDay[]> {
+  const { status } = await Calendar.requestCalendarPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('Calendar permission is required');
+  }
+
+  const windows = getBriefingWindows(range, now);
+  const [events, calendars] = await Promise.all([
+    getEventsBetweenAsync(windows[0].start, windows[windows.length - 1].end),
+    Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT),
+  ]);
+  const calendarTitles = new Map(calendars.map((calendar) => [calendar.id, calendar.title]));
+
+  // Leave out excluded calendars before looking up attendees
+  const included = events.filter((event) => !filters.excludedCalendarIds.includes(event.calendarId));
+  const briefingEvents = await Promise.all(
+    included.map(async (event) =>
+      createBriefingEvent(event, calendarTitles.get(event.calendarId) ?? null, await getAttendeesAsync(event))
+    )
+  );
+  return groupEventsByDay(filterBriefingEvents(briefingEvents, filters), windows);
+}
+
+export function createBriefingPayload(
+  days: BriefingDay[],
+  now: Date = new Date(),
+  range: BriefingRange = DEFAULT_BRIEFING_RANGE
+): BriefingPayload {
+  return {
+    now: formatISO(now),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    range,
+    days,
+  };
+}
+
+// Events that actually take up the user's time
+export const isBusy = (event: BriefingEvent) => !event.cancelled && event.availability !== 'free';
+
+function formatEventLines(events: BriefingEvent[]): string[] {
+  return events.map((event) => {
+    const start = format(new Date(event.start), 'h:mm a');
+    const end = format(new Date(event.end), 'h:mm a');
+    const timeStr = event.allDay ? 'All day' : `${start} - ${end}`;
+
+    let eventStr = `${event.title} (${timeStr})`;
+    if (event.location) eventStr += ` at ${event.location}`;
+    if (event.notes) eventStr += ` - ${event.notes}`;
+    return eventStr;
+  });
+}
+
+// One line per event, the original format of the summary API. Providers still
+// send it alongside the structured events for backends that predate them.
+// Days after the first are introduced with a "Tomorrow:" style heading.
+export function formatEventsForSummary(days: BriefingDay[]): string {
+  const lines = days.flatMap((day, index) => {
+    const busy = day.events.filter(isBusy);
+    if (index === 0 || busy.length === 0) return formatEventLines(busy);
+    return [`${day.label}:`, ...formatEventLines(busy)];
+  });
+  return lines.length > 0 ? lines.join('\n') : 'No events scheduled for today';
+}
+
+// "9 AM", "10:30 AM"
+const formatSpokenTime = (date: Date) => format(date, date.getMinutes() === 0 ? 'h a' : 'h:mm a');
+
+// "a", "a and b", "a, b and c"
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+// "45 minutes", "1 hour", "2 hours and 10 minutes"
+function formatCountdown(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts = [];
+  if (hours > 0) parts.push(hours === 1 ? '1 hour' : `${hours} hours`);
+  if (rest > 0 || hours === 0) parts.push(rest === 1 ? '1 minute' : `${rest} minutes`);
+  return parts.join(' and ');
+}
+
+// "with Alex", "with Alex and Sam", "with Alex and 3 others"
+function describeAttendees(attendees: BriefingAttendee[]): string {
+  const names = attendees
+    .filter((attendee) => attendee.status !== 'declined')
+    .map((attendee) => attendee.name || attendee.email)
+    .filter((name): name is string => Boolean(name));
+  if (names.length === 0) return '';
+  if (names.length <= 2) return ` with ${joinList(names)}`;
+  return ` with ${names[0]} and ${names.length - 1} others`;
+}
+
+function describeEvent(event: BriefingEvent): string {
+  let text = `${event.title || 'an untitled event'}${describeAttendees(event.attendees)}`;
+  text += ` at ${formatSpokenTime(new Date(event.start))}`;
+  if (event.location) text += ` in ${event.location}`;
+  return text;
+}
+
+const sortByStart = (events: BriefingEvent[]) =>
+  [...events].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+// "one event: Standup at 9 AM", "3 events. First up is Standup at 9 AM, then..."
+function describeTimedEvents(timed: BriefingEvent[]): string {
+  if (timed.length === 1) {
+    return `one event: ${describeEvent(timed[0])}`;
+  }
+  const listed = timed.slice(0, OFFLINE_LISTED_EVENTS).map(describeEvent);
+  const remaining = timed.length - listed.length;
+  const rest = listed.slice(1);
+  if (remaining > 0) {
+    rest.push(`${remaining} more after that`);
+  }
+  return `${timed.length} events. First up is ${listed[0]}, then ${joinList(rest)}`;
+}
+
+const describeAllDay = (allDay: BriefingEvent[]) => joinList(allDay.map((event) => event.title || 'an all-day event'));
+
+function summarizeToday(events: BriefingEvent[], now: Date): string[] {
+  const busy = events.filter(isBusy);
+  const allDay = busy.filter((event) => event.allDay);
+  const timed = sortByStart(busy.filter((event) => !event.allDay && new Date(event.end) > now));
+
+  if (allDay.length === 0 && timed.length === 0) {
+    return ['Your calendar is clear today. Enjoy the free time.'];
+  }
+
+  const sentences: string[] = [];
+  if (allDay.length > 0) {
+    sentences.push(`Today is ${describeAllDay(allDay)}.`);
+  }
+
+  if (timed.length > 0) {
+    sentences.push(`You have ${describeTimedEvents(timed)}.`);
+    const minutesUntil = differenceInMinutes(new Date(timed[0].start), now);
+    if (minutesUntil > 0 && minutesUntil <= COUNTDOWN_MINUTES) {
+      sentences.push(`Your first event starts in ${formatCountdown(minutesUntil)}.`);
+    }
+    const lastEnd = Math.max(...timed.map((event) => new Date(event.end).getTime()));
+    sentences.push(`Your last event ends at ${formatSpokenTime(new Date(lastEnd))}.`);
+  } else {
+    sentences.push('There are no meetings on your calendar.');
+  }
+  return sentences;
+}
+
+// "Tomorrow morning, you have one event: ..." or nothing for a clear day
+function summarizeLaterDay(day: BriefingDay): string[] {
+  const busy = day.events.filter(isBusy);
+  const allDay = busy.filter((event) => event.allDay);
+  const timed = sortByStart(busy.filter((event) => !event.allDay));
+
+  const sentences: string[] = [];
+  if (allDay.length > 0) {
+    sentences.push(`${day.label} is ${describeAllDay(allDay)}.`);
+  }
+  if (timed.length > 0) {
+    sentences.push(`${day.label}, you have ${describeTimedEvents(timed)}.`);
+  }
+  return sentences;
+}
+
+// Builds the briefing on the device from a template, for when the summary
+// service can't be reached or offline mode is on. Free and cancelled events
+// are left out, as are events that are already over.
+export function summarizeEventsOffline(payload: BriefingPayload): string {
+  const [today, ...later] = payload.days;
+  const sentences = summarizeToday(today?.events ?? [], new Date(payload.now));
+
+  const laterSentences = later.flatMap(summarizeLaterDay);
+  if (later.length > 0 && laterSentences.length === 0) {
+    laterSentences.push(BRIEFING_RANGE_INFO[payload.range].clear);
+  }
+  return [...sentences, ...laterSentences].join(' ');
+}
@@ -0,0 +1,81 @@
+import { differenceInMinutes } from 'date-fns';
+import { BriefingDay, BriefingRange } from '~/lib/briefing';
+import { BriefingSource } from '~/lib/summarization';
+import { PodcastEpisode } from '~/lib/podcast';
+
+// A cached summary is only read out if the routine starts within this long of
+// the time it was written for, since it says things like "in 45 minutes"
+export const SUMMARY_TOLERANCE_MINUTES = 15;
+// Feeds are checked again once the cached episodes are this old
+export const EPISODE_MAX_AGE_MINUTES = 3 * 60;
+
+export interface CachedSummary {
+  range: BriefingRange;
+  // Time the summary was written for, usually when the alarm rings
+  briefingFor: string;
+  // The events that were summarised, to notice calendar changes since
+  eventsKey: string;
+  summary: string;
+  source: BriefingSource;
+}
+
+export interface CachedEpisodes {
+  fetchedAt: string;
+  episodes: PodcastEpisode[];
+}
+
+// Briefing prepared ahead of an alarm by the background task
+export interface BriefingCache {
+  alarmId: string;
+  occurrence: string;
+  summary: CachedSummary | null;
+  episodes: CachedEpisodes | null;
+}
+
+// Everything about the events that could change what the briefing says
+export function getEventsKey(days: BriefingDay[]): string {
+  return JSON.stringify(
+    days.map((day) => [
+      day.date,
+      day.events.map((event) => [
+        event.id,
+        event.title,
+        event.start,
+        event.end,
+        event.location,
+        event.availability,
+        event.cancelled,
+        event.response,
+        event.attendees.map((attendee) => `${attendee.name}:${attendee.status}`),
+      ]),
+    ])
+  );
+}
+
+// The cached summary, if it was written for these events at about this time
+export function findCachedSummary(
+  cache: BriefingCache | null,
+  range: BriefingRange,
+  days: BriefingDay[],
+  now: Date
+): string | null {
+  const cached = cache?.summary;
+  if (!cached || cached.range !== range) return null;
+
+  if (Math.abs(differenceInMinutes(now, new Date(cached.briefingFor))) > SUMMARY_TOLERANCE_MINUTES) {
+    return null;
+  }
+  if (cached.eventsKey !== getEventsKey(days)) {
+    console.log('[Briefing] Calendar changed since the pre-fetch, summarising again');
+    return null;
+  }
+  return cached.summary;
+}
+
+export function findCachedEpisodes(cache: BriefingCache | null, now: Date): PodcastEpisode[] | null {
+  const cached = cache?.episodes;
+  if (!cached || differenceInMinutes(now, new Date(cached.fetchedAt)) > EPISODE_MAX_AGE_MINUTES) {
+    return null;
+  }
+  return cached.episodes;
+}
@@ -0,0 +1,88 @@
+import * as Calendar from 'expo-calendar';
+import { AlarmConfig } from '~/lib/alarms';
+import { useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+import { BriefingRange, DEFAULT_BRIEFING_RANGE, createBriefingPayload, getBriefingDaysAsync } from '~/lib/briefing';
+import { CachedEpisodes, CachedSummary, getEventsKey } from '~/lib/briefingCache';
+import {
+  getBriefingCache,
+  getBriefingFilters,
+  getSummarizationProvider,
+  useBriefingStore,
+  waitForBriefingHydration,
+} from '~/lib/briefingStore';
+import { getRoutineEpisodesAsync } from '~/lib/podcastSubscriptions';
+import { normalizeRoutine } from '~/lib/routine';
+import { getBriefingAsync } from '~/lib/summarization';
+
+// The background task prepares the briefing once the next alarm is this close
+export const PREFETCH_MINUTES = 30;
+
+async function prefetchSummaryAsync(range: BriefingRange, occurrence: Date): Promise<CachedSummary | null> {
+  // Background tasks can't prompt for permission
+  const { status } = await Calendar.getCalendarPermissionsAsync();
+  if (status !== 'granted') return null;
+
+  const provider = getSummarizationProvider();
+  const days = await getBriefingDaysAsync(range, occurrence, getBriefingFilters());
+  const briefing = await getBriefingAsync(createBriefingPayload(days, occurrence, range), provider);
+
+  // Leave a fallback summary uncached, so the routine tries the service again
+  if (briefing.source === 'offline' && provider.type !== 'template') return null;
+
+  return {
+    range,
+    briefingFor: occurrence.toISOString(),
+    eventsKey: getEventsKey(days),
+    summary: briefing.summary,
+    source: briefing.source,
+  };
+}
+
+async function prefetchEpisodesAsync(now: Date): Promise<CachedEpisodes | null> {
+  const episodes = await getRoutineEpisodesAsync();
+  return episodes.length > 0 ? { fetchedAt: now.toISOString(), episodes } : null;
+}
+
+const describeAlarm = (alarm: AlarmConfig) => (alarm.label ? `"${alarm.label}"` : `alarm ${alarm.id}`);
+
+const logFailure = (what: string) => (error: unknown) => {
+  console.warn(`[Prefetch] Couldn't prepare the ${what}:`, error);
+  return null;
+};
+
+// Fetch and summarise what the next alarm's routine needs, so "Start My Day"
+// can start speaking as soon as the alarm is dismissed
+export async function prefetchBriefingAsync(now: Date = new Date()) {
+  await Promise.all([waitForAlarmHydration(), waitForBriefingHydration()]);
+
+  const upcoming = alarmScheduler
+    .getUpcomingAlarms(useAlarmStore.getState().alarms, PREFETCH_MINUTES * 60, 0)
+    .find(({ secondsUntil }) => secondsUntil > 0);
+  if (!upcoming) return;
+
+  const { alarm, triggerAt } = upcoming;
+  const steps = normalizeRoutine(alarm.routine).filter((step) => step.enabled);
+  const calendar = steps.find((step) => step.type === 'calendar');
+  const podcast = steps.find((step) => step.type === 'podcast');
+  if (!calendar && !podcast) return;
+
+  // Only fetch what isn't cached for this alarm yet, so a part that failed or fell back
+  // to the offline summary is tried again on the next run
+  const cache = getBriefingCache();
+  const cached = cache?.alarmId === alarm.id && cache.occurrence === triggerAt.toISOString() ? cache : null;
+  const range = calendar?.range ?? DEFAULT_BRIEFING_RANGE;
+  const needsSummary = calendar !== undefined && cached?.summary?.range !== range;
+  const needsEpisodes = podcast !== undefined && !cached?.episodes;
+  if (!needsSummary && !needsEpisodes) return;
+
+  console.log(`[Prefetch] Preparing the briefing for ${describeAlarm(alarm)} at ${triggerAt.toLocaleString()}`);
+  const [summary, episodes] = await Promise.all([
+    needsSummary ? prefetchSummaryAsync(range, triggerAt).catch(logFailure('summary')) : cached?.summary ?? null,
+    needsEpisodes ? prefetchEpisodesAsync(now).catch(logFailure('podcasts')) : cached?.episodes ?? null,
+  ]);
+
+  // Try again on the next run if nothing could be fetched
+  if (!summary && !episodes) return;
+  useBriefingStore.getState().setCache({ alarmId: alarm.id, occurrence: triggerAt.toISOString(), summary, episodes });
+}
@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_SUMMARIZATION, SummarizationSettings, createSummarizationProvider } from '~/lib/summarization';
+import { BriefingFilters, DEFAULT_BRIEFING_FILTERS } from '~/lib/briefing';
+import { BriefingCache } from '~/lib/briefingCache';
+
+// API keys are kept in the device keychain rather than in AsyncStorage
+type ApiKeySetting = 'hostedApiKey' | 'openAiApiKey';
+const API_KEY_SETTINGS: ApiKeySetting[] = ['hostedApiKey', 'openAiApiKey'];
+const secureStoreKey = (setting: ApiKeySetting) => `briefing.${setting}`;
+
+function saveApiKeys(changes: Partial<SummarizationSettings>) {
+  for (const setting of API_KEY_SETTINGS) {
+    const value = changes[setting];
+    if (value === undefined) continue;
+    const key = secureStoreKey(setting);
+    (value ? SecureStore.setItemAsync(key, value) : SecureStore.deleteItemAsync(key)).catch((error) =>
+      console.warn(`Couldn't save the ${setting}:`, error)
+    );
+  }
+}
+
+async function loadApiKeysAsync() {
+  const keys: Partial<SummarizationSettings> = {};
+  for (const setting of API_KEY_SETTINGS) {
+    const value = await SecureStore.getItemAsync(secureStoreKey(setting));
+    if (value) keys[setting] = value;
+  }
+  useBriefingStore.setState((state) => ({ summarization: { ...state.summarization, ...keys } }));
+}
+
+let apiKeysLoaded: Promise<void> = Promise.resolve();
+
+interface BriefingState {
+  // Which service writes the calendar briefing, and how to reach it
+  summarization: SummarizationSettings;
+  setSummarization: (changes: Partial<SummarizationSettings>) => void;
+  // Calendars and events left out of the briefing
+  filters: BriefingFilters;
+  setFilters: (changes: Partial<BriefingFilters>) => void;
+  // Summary and episodes fetched ahead of the next alarm
+  cache: BriefingCache | null;
+  setCache: (cache: BriefingCache | null) => void;
+}
+
+export const useBriefingStore = create<BriefingState>()(
+  persist(
+    (set) => ({
+      summarization: DEFAULT_SUMMARIZATION,
+      setSummarization: (changes) => {
+        set((state) => ({ summarization: { ...state.summarization, ...changes } }));
+        saveApiKeys(changes);
+      },
+      filters: DEFAULT_BRIEFING_FILTERS,
+      setFilters: (changes) => set((state) => ({ filters: { ...state.filters, ...changes } })),
+      cache: null,
+      setCache: (cache) => set({ cache }),
+    }),
+    {
+      name: 'briefing-settings',
+      version: 5,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        summarization: { ...state.summarization, hostedApiKey: '', openAiApiKey: '' },
+        filters: state.filters,
+        cache: state.cache,
+      }),
+      onRehydrateStorage: () => () => {
+        apiKeysLoaded = loadApiKeysAsync().catch((error) => console.warn("Couldn't load the API keys:", error));
+      },
+      migrate: (persisted, version) => {
+        const state = persisted as {
+          offline?: boolean;
+          summarization: SummarizationSettings;
+          filters: BriefingFilters;
+          cache: BriefingCache | null;
+        };
+        if (version < 2) {
+          // Offline mode became the on-device provider
+          state.summarization = {
+            ...DEFAULT_SUMMARIZATION,
+            provider: state.offline ? 'template' : DEFAULT_SUMMARIZATION.provider,
+          };
+          delete state.offline;
+        }
+        if (version < 3) {
+          state.filters = DEFAULT_BRIEFING_FILTERS;
+        }
+        if (version < 4) {
+          // The cache held a single episode before subscriptions
+          state.cache = null;
+        }
+        if (version < 5) {
+          // API keys used to be saved along with the other settings
+          saveApiKeys({
+            hostedApiKey: state.summarization.hostedApiKey || undefined,
+            openAiApiKey: state.summarization.openAiApiKey || undefined,
+          });
+        }
+        return state;
+      },
+    }
+  )
+);
+
+// Provider for the current settings, for use outside of React render
+export function getSummarizationProvider() {
+  return createSummarizationProvider(useBriefingStore.getState().summarization);
+}
+
+export function getBriefingFilters(): BriefingFilters {
+  return useBriefingStore.getState().filters;
+}
+
+export function getBriefingCache(): BriefingCache | null {
+  return useBriefingStore.getState().cache;
+}
+
+// The background task can run before the settings and API keys are loaded from storage
+export async function waitForBriefingHydration(): Promise<void> {
+  if (!useBriefingStore.persist.hasHydrated()) {
+    await new Promise<void>((resolve) => {
+      const unsubscribe = useBriefingStore.persist.onFinishHydration(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
+  await apiKeysLoaded;
+}
@@ -0,0 +1,64 @@
+import * as Calendar from 'expo-calendar';
+import { eachDayOfInterval, endOfDay, format, startOfDay } from 'date-fns';
+
+// Read events from every calendar between two dates, sorted by start time
+export async function getEventsBetweenAsync(startDate: Date, endDate: Date): Promise<Calendar.Event[]> {
+  const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+  let allEvents: Calendar.Event[] = [];
+
+  for (const cal of calendars) {
+    const events = await Calendar.getEventsAsync([cal.id], startDate, endDate);
+    allEvents = [...allEvents, ...events];
+  }
+
+  return allEvents.sort(
+    (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+  );
+}
+
+// Earliest timed event on the given day. Background tasks can't prompt, so this
+// only reads the calendar when permission was already granted.
+export async function getFirstEventOfDayAsync(day: Date): Promise<Calendar.Event | null> {
+  const { status } = await Calendar.getCalendarPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  const events = await getEventsBetweenAsync(startOfDay(day), endOfDay(day));
+  const dayStart = startOfDay(day).getTime();
+  return (
+    events.find((event) => !event.allDay && new Date(event.startDate).getTime() >= dayStart) ?? null
+  );
+}
+
+// Days (yyyy-MM-dd) covered by an all-day event whose title contains one of the
+// keywords, such as "Holiday" or "OOO". Like above, this never prompts.
+export async function getHolidaysBetweenAsync(
+  startDate: Date,
+  endDate: Date,
+  keywords: string[]
+): Promise<string[]> {
+  const { status } = await Calendar.getCalendarPermissionsAsync();
+  if (status !== 'granted' || keywords.length === 0) {
+    return [];
+  }
+
+  const events = await getEventsBetweenAsync(startDate, endDate);
+  const days = new Set<string>();
+  for (const event of events) {
+    if (!event.allDay || !matchesKeyword(event.title, keywords)) continue;
+
+    // All-day events end at midnight of the following day
+    const start = startOfDay(new Date(event.startDate));
+    const end = new Date(Math.max(start.getTime(), new Date(event.endDate).getTime() - 1));
+    for (const day of eachDayOfInterval({ start, end })) {
+      days.add(format(day, 'yyyy-MM-dd'));
+    }
+  }
+  return [...days].sort();
+}
+
+export function matchesKeyword(title: string, keywords: string[]): boolean {
+  const lower = title.toLowerCase();
+  return keywords.some((keyword) => keyword.trim() !== '' && lower.includes(keyword.trim().toLowerCase()));
+}
@@ -0,0 +1,101 @@
+export type ChallengeType = 'none' | 'math' | 'typing' | 'shake';
+export type ChallengeDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface DismissChallengeSettings {
+  type: ChallengeType;
+  difficulty: ChallengeDifficulty;
+}
+
+export const DEFAULT_CHALLENGE: DismissChallengeSettings = { type: 'none', difficulty: 'medium' };
+
+export const CHALLENGE_TYPES: { type: ChallengeType; name: string }[] = [
+  { type: 'none', name: 'None' },
+  { type: 'math', name: 'Math' },
+  { type: 'typing', name: 'Typing' },
+  { type: 'shake', name: 'Shake' },
+];
+
+export const CHALLENGE_DIFFICULTIES: ChallengeDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Number of arithmetic problems to solve
+export const MATH_PROBLEM_COUNTS: Record<ChallengeDifficulty, number> = { easy: 1, medium: 3, hard: 5 };
+
+// Number of shakes required
+export const SHAKE_COUNTS: Record<ChallengeDifficulty, number> = { easy: 10, medium: 25, hard: 50 };
+
+// Acceleration (in g) a movement must exceed to count as a shake
+export const SHAKE_THRESHOLD = 1.8;
+
+const PHRASES: Record<ChallengeDifficulty, string[]> = {
+  easy: ['I am awake', 'Good morning', 'Rise and shine'],
+  medium: [
+    'I am awake and ready for today',
+    'Today is going to be a good day',
+    'Out of bed and onto my feet',
+  ],
+  hard: [
+    'The early bird catches the worm, but the second mouse gets the cheese',
+    'I promise I am wide awake and will not crawl back under the covers',
+    'Sunlight, coffee, and a glass of water before checking my phone',
+  ],
+};
+
+export interface MathProblem {
+  question: string;
+  answer: number;
+}
+
+function randomInt(min: number, max: number, random: () => number) {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+function createMathProblem(difficulty: ChallengeDifficulty, random: () => number): MathProblem {
+  if (difficulty === 'easy') {
+    const a = randomInt(2, 20, random);
+    const b = randomInt(2, 20, random);
+    return { question: `${a} + ${b}`, answer: a + b };
+  }
+  if (difficulty === 'medium') {
+    const a = randomInt(12, 99, random);
+    const b = randomInt(12, 99, random);
+    return random() < 0.5
+      ? { question: `${a} + ${b}`, answer: a + b }
+      : { question: `${Math.max(a, b)} − ${Math.min(a, b)}`, answer: Math.abs(a - b) };
+  }
+  const a = randomInt(6, 19, random);
+  const b = randomInt(3, 12, random);
+  const c = randomInt(10, 99, random);
+  return { question: `${a} × ${b} + ${c}`, answer: a * b + c };
+}
+
+export function createMathProblems(difficulty: ChallengeDifficulty, random: () => number = Math.random): MathProblem[] {
+  return Array.from({ length: MATH_PROBLEM_COUNTS[difficulty] }, () => createMathProblem(difficulty, random));
+}
+
+export function pickPhrase(difficulty: ChallengeDifficulty, random: () => number = Math.random): string {
+  const phrases = PHRASES[difficulty];
+  return phrases[Math.floor(random() * phrases.length)];
+}
+
+// Typed phrases are compared ignoring case, punctuation and extra spaces
+export function matchesPhrase(input: string, phrase: string): boolean {
+  const normalize = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+  return normalize(input) === normalize(phrase);
+}
+
+// "Math · 3 problems", "Shake · 25 times"
+export function formatChallenge(settings: DismissChallengeSettings): string {
+  switch (settings.type) {
+    case 'math': {
+      const count = MATH_PROBLEM_COUNTS[settings.difficulty];
+      return `Math · ${count} ${count === 1 ? 'problem' : 'problems'}`;
+    }
+    case 'typing':
+      return `Typing · ${settings.difficulty}`;
+    case 'shake':
+      return `Shake · ${SHAKE_COUNTS[settings.difficulty]} times`;
+    default:
+      return 'None';
+  }
+}
@@ -0,0 +1,99 @@
+import { Audio } from 'expo-av';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { CustomSound, useSoundStore } from '~/lib/soundStore';
+
+const SOUNDS_DIR = `${FileSystem.documentDirectory}sounds/`;
+
+// Shortest segment a sound can be trimmed down to
+export const MIN_TRIM_MS = 1000;
+export const TRIM_STEP_MS = 1000;
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+// Load the file once to check it's playable and read its length
+async function getDurationAsync(uri: string): Promise<number> {
+  const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+  try {
+    const status = await sound.getStatusAsync();
+    if (!status.isLoaded || !status.durationMillis) {
+      throw new Error('Could not read the length of this file');
+    }
+    return status.durationMillis;
+  } finally {
+    await sound.unloadAsync();
+  }
+}
+
+// Let the user pick an audio file and copy it into app storage.
+// Returns null when the picker is dismissed.
+export async function importCustomSoundAsync(): Promise<CustomSound | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'audio/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const id = `custom_${Date.now().toString(36)}`;
+  const extension = asset.name.slice(stripExtension(asset.name).length);
+  const uri = `${SOUNDS_DIR}${id}${extension}`;
+
+  await FileSystem.makeDirectoryAsync(SOUNDS_DIR, { intermediates: true });
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+
+  let durationMs: number;
+  try {
+    durationMs = await getDurationAsync(uri);
+  } catch (error) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    throw new Error(`Can't use ${asset.name} as an alarm sound`);
+  }
+
+  const sound: CustomSound = {
+    id,
+    name: stripExtension(asset.name),
+    uri,
+    durationMs,
+    startMs: 0,
+    endMs: durationMs,
+  };
+  useSoundStore.getState().addSound(sound);
+  return sound;
+}
+
+// Keep the segment inside the file and at least MIN_TRIM_MS long
+export function clampTrim(sound: CustomSound, startMs: number, endMs: number) {
+  const minLength = Math.min(MIN_TRIM_MS, sound.durationMs);
+  const end = Math.min(sound.durationMs, Math.max(endMs, minLength));
+  const start = Math.max(0, Math.min(startMs, end - minLength));
+  return { startMs: start, endMs: end };
+}
+
+export function trimCustomSound(id: string, startMs: number, endMs: number) {
+  const sound = useSoundStore.getState().sounds.find((item) => item.id === id);
+  if (!sound) return;
+  useSoundStore.getState().updateSound(id, clampTrim(sound, startMs, endMs));
+}
+
+// Alarms still pointing at a deleted sound fall back to the default one
+export async function deleteCustomSoundAsync(id: string) {
+  const sound = useSoundStore.getState().sounds.find((item) => item.id === id);
+  if (!sound) return;
+  await FileSystem.deleteAsync(sound.uri, { idempotent: true });
+  useSoundStore.getState().removeSound(id);
+}
+
+export function formatTrimTime(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function formatTrim(sound: CustomSound): string {
+  return `${formatTrimTime(sound.startMs)} – ${formatTrimTime(sound.endMs)} of ${formatTrimTime(sound.durationMs)}`;
+}
@@ -0,0 +1,60 @@
+import { addDays, startOfDay } from 'date-fns';
+import { HolidaySettings, VacationRange } from '~/lib/alarms';
+import { useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+import { getHolidaysBetweenAsync } from '~/lib/calendar';
+
+// How far ahead the calendar is searched for holidays
+export const HOLIDAY_LOOKAHEAD_DAYS = 14;
+
+// "Holiday, OOO" -> ["Holiday", "OOO"]
+export function parseKeywords(text: string): string[] {
+  return text
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword !== '');
+}
+
+// Skipped days changed, so every enabled alarm may ring on a different day now
+async function rescheduleEnabledAlarmsAsync(now: Date) {
+  const { alarms, updateAlarm } = useAlarmStore.getState();
+  for (const alarm of alarms) {
+    if (!alarm.enabled) continue;
+    try {
+      updateAlarm(alarm.id, await alarmScheduler.scheduleAlarm(alarm, now));
+    } catch (error) {
+      console.error(`[Days Off] Error rescheduling alarm ${alarm.id}:`, error);
+    }
+  }
+}
+
+export async function setVacationAsync(vacation: VacationRange | null, now: Date = new Date()) {
+  await waitForAlarmHydration();
+  useAlarmStore.getState().setVacation(vacation);
+  await rescheduleEnabledAlarmsAsync(now);
+}
+
+export async function setHolidaySettingsAsync(settings: HolidaySettings, now: Date = new Date()) {
+  await waitForAlarmHydration();
+  useAlarmStore.getState().setHolidaySettings(settings);
+  await refreshHolidaysAsync(now);
+}
+
+// Look for upcoming holidays in the calendar and reschedule alarms when they changed
+export async function refreshHolidaysAsync(now: Date = new Date()) {
+  await waitForAlarmHydration();
+  const { holidaySettings, holidays: previous, setHolidays } = useAlarmStore.getState();
+
+  const holidays = holidaySettings.enabled
+    ? await getHolidaysBetweenAsync(
+        startOfDay(now),
+        addDays(startOfDay(now), HOLIDAY_LOOKAHEAD_DAYS),
+        holidaySettings.keywords
+      )
+    : [];
+  if (holidays.join() === previous.join()) return;
+
+  console.log(`[Days Off] Holidays changed to ${holidays.join(', ') || 'none'}, rescheduling alarms`);
+  setHolidays(holidays);
+  await rescheduleEnabledAlarmsAsync(now);
+}
@@ -0,0 +1,41 @@
+import { addMinutes } from 'date-fns';
+
+export interface EscalationSettings {
+  enabled: boolean;
+  // Minutes between follow-up notifications
+  intervalMinutes: number;
+  // Number of follow-up notifications after the alarm itself
+  maxSteps: number;
+  // Minutes without a dismissal before the alarm counts as missed
+  missedAfterMinutes: number;
+}
+
+// Follow-up notifications scheduled for one occurrence of an alarm
+export interface EscalationEntry {
+  occurrence: string;
+  ids: string[];
+}
+
+export const DEFAULT_ESCALATION: EscalationSettings = {
+  enabled: false,
+  intervalMinutes: 2,
+  maxSteps: 3,
+  missedAfterMinutes: 15,
+};
+
+// Times of the follow-up notifications after the alarm rings at `triggerTime`
+export function getEscalationTimes(settings: EscalationSettings, triggerTime: Date): Date[] {
+  if (!settings.enabled) return [];
+  return Array.from({ length: settings.maxSteps }, (_, i) =>
+    addMinutes(triggerTime, settings.intervalMinutes * (i + 1))
+  );
+}
+
+export function isOccurrenceMissed(settings: EscalationSettings, occurrence: Date, now: Date): boolean {
+  return now.getTime() >= addMinutes(occurrence, settings.missedAfterMinutes).getTime();
+}
+
+export function formatEscalation(settings: EscalationSettings): string {
+  if (!settings.enabled) return 'Off';
+  return `${settings.maxSteps} follow-ups every ${settings.intervalMinutes} min`;
+}
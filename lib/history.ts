@@ -0,0 +1,246 @@
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
+import { AlarmConfig } from '~/lib/alarms';
+import { useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+import { isOccurrenceMissed } from '~/lib/escalation';
+import { AlarmEvent, useHistoryStore } from '~/lib/historyStore';
+
+// Wake-up times spread this far apart (standard deviation) score zero consistency
+const CONSISTENCY_SPREAD_MINUTES = 60;
+
+// Everything that happened for one alarm occurrence
+export interface WakeSession {
+  alarmId: string;
+  alarmLabel: string;
+  occurrence: Date;
+  firedAt?: Date;
+  dismissedAt?: Date;
+  snoozes: number;
+  missed: boolean;
+}
+
+export interface DayStats {
+  date: Date;
+  sessions: WakeSession[];
+  // From the first ring to dismissal, for the day's first dismissed alarm
+  timeToDismissMs: number | null;
+  // Minutes past midnight the user dismissed the day's first alarm
+  wakeMinutes: number | null;
+  snoozes: number;
+  missed: number;
+  briefings: number;
+}
+
+export interface WeekSummary {
+  days: DayStats[];
+  averageTimeToDismissMs: number | null;
+  averageWakeMinutes: number | null;
+  wakeSpreadMinutes: number | null;
+  // 0–100, higher when wake-up times are closer together
+  consistency: number | null;
+  snoozes: number;
+  missed: number;
+  briefings: number;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function recordAlarmEvent(
+  type: AlarmEvent['type'],
+  alarm: AlarmConfig,
+  occurrence: Date,
+  snoozeCount: number
+) {
+  useHistoryStore.getState().addEvent({
+    type,
+    alarmId: alarm.id,
+    alarmLabel: alarm.label,
+    occurrence: occurrence.toISOString(),
+    snoozeCount,
+  });
+}
+
+// The alert can be shown twice for one notification (received, then tapped),
+// so repeats of the same ring are ignored
+export function recordAlarmFired(alarm: AlarmConfig, occurrence: Date, snoozeCount: number) {
+  const alreadyRecorded = useHistoryStore
+    .getState()
+    .events.some(
+      (event) =>
+        event.type === 'fired' &&
+        event.alarmId === alarm.id &&
+        event.occurrence === occurrence.toISOString() &&
+        event.snoozeCount === snoozeCount
+    );
+  if (!alreadyRecorded) {
+    recordAlarmEvent('fired', alarm, occurrence, snoozeCount);
+  }
+}
+
+export function recordAlarmSnoozed(alarm: AlarmConfig, occurrence: Date, snoozeCount: number) {
+  recordAlarmEvent('snoozed', alarm, occurrence, snoozeCount);
+}
+
+export function recordAlarmDismissed(alarm: AlarmConfig, occurrence: Date, snoozeCount: number) {
+  recordAlarmEvent('dismissed', alarm, occurrence, snoozeCount);
+}
+
+export function recordStartMyDay() {
+  const now = new Date().toISOString();
+  useHistoryStore.getState().addEvent({
+    type: 'startMyDay',
+    alarmId: null,
+    alarmLabel: '',
+    occurrence: now,
+    at: now,
+  });
+}
+
+// Record occurrences that were never dismissed and stop their follow-ups
+export async function checkMissedAlarmsAsync(now: Date = new Date()) {
+  await waitForAlarmHydration();
+  const { alarms, updateAlarm } = useAlarmStore.getState();
+
+  for (const alarm of alarms) {
+    const missed = alarm.escalations.filter((entry) =>
+      isOccurrenceMissed(alarm.escalation, new Date(entry.occurrence), now)
+    );
+    if (missed.length === 0) continue;
+
+    for (const entry of missed) {
+      console.log(`Alarm ${alarm.id} was not dismissed for ${entry.occurrence}, marking as missed`);
+      useHistoryStore.getState().addEvent({
+        type: 'missed',
+        alarmId: alarm.id,
+        alarmLabel: alarm.label,
+        occurrence: entry.occurrence,
+      });
+    }
+
+    // Missed entries are the oldest ones, so cancelling up to the latest of them
+    // leaves any later occurrence's ladder in place
+    const latest = new Date(Math.max(...missed.map((entry) => new Date(entry.occurrence).getTime())));
+    updateAlarm(alarm.id, { escalations: await alarmScheduler.cancelEscalations(alarm, latest) });
+  }
+}
+
+// Fold the event log into one session per alarm occurrence, oldest first
+export function groupSessions(events: AlarmEvent[]): WakeSession[] {
+  const sessions = new Map<string, WakeSession>();
+
+  for (const event of events) {
+    if (!event.alarmId) continue;
+
+    const key = `${event.alarmId}|${event.occurrence}`;
+    const session = sessions.get(key) ?? {
+      alarmId: event.alarmId,
+      alarmLabel: event.alarmLabel,
+      occurrence: new Date(event.occurrence),
+      snoozes: 0,
+      missed: false,
+    };
+    const at = new Date(event.at);
+
+    switch (event.type) {
+      case 'fired':
+        if (!session.firedAt || at < session.firedAt) session.firedAt = at;
+        break;
+      case 'snoozed':
+        session.snoozes += 1;
+        break;
+      case 'dismissed':
+        session.dismissedAt = at;
+        break;
+      case 'missed':
+        session.missed = true;
+        break;
+    }
+    sessions.set(key, session);
+  }
+
+  return [...sessions.values()].sort((a, b) => a.occurrence.getTime() - b.occurrence.getTime());
+}
+
+function getDayStats(date: Date, sessions: WakeSession[], events: AlarmEvent[]): DayStats {
+  const daySessions = sessions.filter((session) => isSameDay(session.occurrence, date));
+  const firstDismissed = daySessions.find((session) => session.dismissedAt);
+  const dismissedAt = firstDismissed?.dismissedAt;
+
+  return {
+    date,
+    sessions: daySessions,
+    timeToDismissMs:
+      dismissedAt && firstDismissed.firedAt
+        ? Math.max(0, dismissedAt.getTime() - firstDismissed.firedAt.getTime())
+        : null,
+    wakeMinutes: dismissedAt ? dismissedAt.getHours() * 60 + dismissedAt.getMinutes() : null,
+    snoozes: daySessions.reduce((sum, session) => sum + session.snoozes, 0),
+    missed: daySessions.filter((session) => session.missed).length,
+    briefings: events.filter((event) => event.type === 'startMyDay' && isSameDay(new Date(event.at), date))
+      .length,
+  };
+}
+
+export function summarizeWeek(events: AlarmEvent[], weekStart: Date): WeekSummary {
+  const sessions = groupSessions(events);
+  const days = Array.from({ length: 7 }, (_, index) =>
+    getDayStats(addDays(startOfDay(weekStart), index), sessions, events)
+  );
+
+  const wakeTimes = days.map((day) => day.wakeMinutes).filter((value): value is number => value !== null);
+  const averageWakeMinutes = average(wakeTimes);
+
+  // Consistency needs at least two mornings to compare
+  let wakeSpreadMinutes: number | null = null;
+  let consistency: number | null = null;
+  if (averageWakeMinutes !== null && wakeTimes.length > 1) {
+    const variance = average(wakeTimes.map((value) => (value - averageWakeMinutes) ** 2)) ?? 0;
+    wakeSpreadMinutes = Math.sqrt(variance);
+    consistency = Math.round(Math.max(0, 100 - (wakeSpreadMinutes / CONSISTENCY_SPREAD_MINUTES) * 100));
+  }
+
+  return {
+    days,
+    averageTimeToDismissMs: average(
+      days.map((day) => day.timeToDismissMs).filter((value): value is number => value !== null)
+    ),
+    averageWakeMinutes,
+    wakeSpreadMinutes,
+    consistency,
+    snoozes: days.reduce((sum, day) => sum + day.snoozes, 0),
+    missed: days.reduce((sum, day) => sum + day.missed, 0),
+    briefings: days.reduce((sum, day) => sum + day.briefings, 0),
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds}s`;
+  return seconds === 0 ? `${minutes}m` : `${minutes}m ${seconds}s`;
+}
+
+export function formatMinutesOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return format(new Date(2000, 0, 1, Math.floor(rounded / 60), rounded % 60), 'h:mm a');
+}
+
+export function describeEvent(event: AlarmEvent): string {
+  const name = event.alarmLabel || 'Alarm';
+  switch (event.type) {
+    case 'fired':
+      return event.snoozeCount ? `${name} rang again after snooze ${event.snoozeCount}` : `${name} rang`;
+    case 'snoozed':
+      return `${name} snoozed`;
+    case 'dismissed':
+      return `${name} dismissed`;
+    case 'missed':
+      return `${name} missed`;
+    case 'startMyDay':
+      return 'Morning briefing finished';
+  }
+}
@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+export type AlarmEventType = 'fired' | 'snoozed' | 'dismissed' | 'missed' | 'startMyDay';
+
+export interface AlarmEvent {
+  id: string;
+  type: AlarmEventType;
+  // StartMyDay can also be run by hand, without an alarm
+  alarmId: string | null;
+  alarmLabel: string;
+  // The occurrence the event belongs to, at the alarm's set time (ISO string)
+  occurrence: string;
+  // When the event happened (ISO string)
+  at: string;
+  snoozeCount?: number;
+}
+
+// Older events are dropped as new ones come in
+export const HISTORY_RETENTION_DAYS = 90;
+
+interface HistoryState {
+  events: AlarmEvent[];
+  addEvent: (event: Omit<AlarmEvent, 'id' | 'at'> & { at?: string }) => void;
+}
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set) => ({
+      events: [],
+      addEvent: (event) =>
+        set((state) => ({
+          events: [
+            ...state.events.filter(
+              (item) => Date.now() - new Date(item.at).getTime() < HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+            ),
+            {
+              ...event,
+              id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+              at: event.at ?? new Date().toISOString(),
+            },
+          ],
+        })),
+    }),
+    {
+      name: 'alarm-history',
+      version: 1,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ events: state.events }),
+    }
+  )
+);
@@ -0,0 +1,4 @@
+import { History } from 'lucide-react-native';
+import { iconWithClassName } from './iconWithClassName';
+iconWithClassName(History);
+export { History };
@@ -0,0 +1,4 @@
+import { Settings } from 'lucide-react-native';
+import { iconWithClassName } from './iconWithClassName';
+iconWithClassName(Settings);
+export { Settings };
@@ -0,0 +1,114 @@
+import * as rssParser from 'react-native-rss-parser';
+
+// NPR's Up First
+export const DEFAULT_FEED_URL = 'https://feeds.npr.org/510318/podcast.xml';
+
+export interface PodcastEpisode {
+  title: string;
+  audioUrl: string;
+  // Missing on episodes saved before subscriptions existed
+  feedUrl?: string;
+  // Length from the feed, when it says
+  durationSeconds?: number | null;
+}
+
+export interface PodcastFeed {
+  url: string;
+  title: string;
+  imageUrl: string | null;
+  // Newest first, as the feed lists them
+  episodes: PodcastEpisode[];
+}
+
+// Which episode of a feed the morning routine plays
+export type EpisodeRule = 'latest' | 'unplayed';
+
+export const EPISODE_RULES: EpisodeRule[] = ['latest', 'unplayed'];
+
+export const EPISODE_RULE_INFO: Record<EpisodeRule, { title: string; description: string }> = {
+  latest: { title: 'Latest only', description: "Plays the newest episode, unless you've heard it already." },
+  unplayed: { title: 'Unplayed only', description: "Plays the newest episode you haven't heard, going back to older ones." },
+};
+
+export interface PodcastSubscription {
+  url: string;
+  title: string;
+  imageUrl: string | null;
+  // Whether the morning routine plays this feed
+  inRoutine: boolean;
+  rule: EpisodeRule;
+}
+
+export const DEFAULT_SUBSCRIPTION: PodcastSubscription = {
+  url: DEFAULT_FEED_URL,
+  title: 'Up First',
+  imageUrl: null,
+  inRoutine: true,
+  rule: 'latest',
+};
+
+// iTunes durations come as seconds, "MM:SS" or "HH:MM:SS"
+export function parseDuration(value: string | undefined): number | null {
+  if (!value?.trim()) return null;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length > 3 || parts.some((part) => !Number.isFinite(part) || part < 0)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export async function fetchFeedAsync(feedUrl: string): Promise<PodcastFeed> {
+  const response = await fetch(feedUrl);
+  if (!response.ok) {
+    throw new Error(`Couldn't load the feed (status ${response.status})`);
+  }
+  const rss = await rssParser.parse(await response.text());
+
+  // Only items with audio attached can be played
+  const episodes = (rss.items ?? []).flatMap((item) => {
+    const audioEnclosure = item.enclosures.find((enclosure) => enclosure.mimeType?.startsWith('audio/'));
+    if (!audioEnclosure) return [];
+    return [
+      {
+        title: item.title,
+        audioUrl: audioEnclosure.url,
+        feedUrl,
+        durationSeconds: parseDuration(item.itunes?.duration),
+      },
+    ];
+  });
+
+  return {
+    url: feedUrl,
+    title: rss.title?.trim() || feedUrl,
+    imageUrl: rss.itunes?.image || rss.image?.url || null,
+    episodes,
+  };
+}
+
+// The episode a subscription plays next, or null when there's nothing left to hear
+export function selectEpisode(
+  feed: PodcastFeed,
+  rule: EpisodeRule,
+  played: string[]
+): PodcastEpisode | null {
+  const candidates = rule === 'latest' ? feed.episodes.slice(0, 1) : feed.episodes;
+  return candidates.find((episode) => !played.includes(episode.audioUrl)) ?? null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCharCode(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCharCode(parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Feed URLs in an OPML file exported from another podcast app
+export function parseOpml(opml: string): string[] {
+  const urls = Array.from(
+    opml.matchAll(/<outline\b[^>]*?\bxmlUrl\s*=\s*(?:"([^"]*)"|'([^']*)')/gi),
+    (match) => decodeXmlEntities(match[1] ?? match[2]).trim()
+  );
+  return [...new Set(urls.filter(Boolean))];
+}
@@ -0,0 +1,162 @@
+import * as FileSystem from 'expo-file-system';
+import { useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+import { PodcastEpisode } from '~/lib/podcast';
+import { DownloadedEpisode, usePodcastStore, waitForPodcastHydration } from '~/lib/podcastStore';
+import { getRoutineEpisodesAsync } from '~/lib/podcastSubscriptions';
+import { normalizeRoutine } from '~/lib/routine';
+
+const EPISODES_DIR = `${FileSystem.documentDirectory}podcasts/`;
+
+// Downloads are kept while they're among the newest few of their feed and less than a week old
+export const KEEP_EPISODES = 3;
+export const KEEP_DAYS = 7;
+
+// The background task downloads ahead of alarms this far off, checking the feed at most this often
+export const DOWNLOAD_LOOKAHEAD_HOURS = 12;
+export const FEED_CHECK_MINUTES = 60;
+
+// Running downloads by audio URL, so the card and the background task share one
+const running = new Map<string, Promise<DownloadedEpisode>>();
+const partialFiles = new Set<string>();
+
+function getExtension(audioUrl: string): string {
+  const match = /\.(mp3|m4a|aac|ogg|wav)$/i.exec(audioUrl.split('?')[0]);
+  return match ? match[0].toLowerCase() : '.mp3';
+}
+
+export function findDownload(downloads: DownloadedEpisode[], audioUrl: string): DownloadedEpisode | null {
+  return downloads.find((download) => download.audioUrl === audioUrl) ?? null;
+}
+
+// Downloads past the retention policy. The newest one of each feed always stays,
+// so there's still something to play if the feed stops updating.
+export function selectExpiredDownloads(downloads: DownloadedEpisode[], now: Date): DownloadedEpisode[] {
+  const cutoff = now.getTime() - KEEP_DAYS * 24 * 60 * 60 * 1000;
+  const newer = new Map<string | undefined, number>();
+  return [...downloads]
+    .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt))
+    .filter((download) => {
+      const index = newer.get(download.feedUrl) ?? 0;
+      newer.set(download.feedUrl, index + 1);
+      return index > 0 && (index >= KEEP_EPISODES || new Date(download.downloadedAt).getTime() < cutoff);
+    });
+}
+
+async function startDownloadAsync(episode: PodcastEpisode): Promise<DownloadedEpisode> {
+  const { setProgress, addDownload } = usePodcastStore.getState();
+  const uri = `${EPISODES_DIR}episode-${Date.now()}${getExtension(episode.audioUrl)}`;
+  // Written under another name until it's complete, so a cut-off file is never played
+  const partial = `${uri}.download`;
+  let reported = 0;
+
+  await FileSystem.makeDirectoryAsync(EPISODES_DIR, { intermediates: true });
+  partialFiles.add(partial);
+  setProgress(episode.audioUrl, 0);
+  try {
+    const resumable = FileSystem.createDownloadResumable(
+      episode.audioUrl,
+      partial,
+      {},
+      ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+        if (totalBytesExpectedToWrite <= 0) return;
+        // Only report whole percents, so the card doesn't re-render for every chunk
+        const value = Math.floor((totalBytesWritten / totalBytesExpectedToWrite) * 100) / 100;
+        if (value === reported) return;
+        reported = value;
+        setProgress(episode.audioUrl, value);
+      }
+    );
+    const result = await resumable.downloadAsync();
+    if (!result || result.status >= 400) {
+      throw new Error(`Couldn't download the episode (status ${result?.status ?? 'unknown'})`);
+    }
+    await FileSystem.moveAsync({ from: partial, to: uri });
+  } catch (error) {
+    await FileSystem.deleteAsync(partial, { idempotent: true });
+    throw error;
+  } finally {
+    partialFiles.delete(partial);
+    setProgress(episode.audioUrl, null);
+  }
+
+  const download = {
+    title: episode.title,
+    audioUrl: episode.audioUrl,
+    feedUrl: episode.feedUrl,
+    uri,
+    downloadedAt: new Date().toISOString(),
+  };
+  addDownload(download);
+  return download;
+}
+
+// Save the episode to app storage, or return the copy that's already there
+export async function downloadEpisodeAsync(episode: PodcastEpisode): Promise<DownloadedEpisode> {
+  await waitForPodcastHydration();
+  const existing = findDownload(usePodcastStore.getState().downloads, episode.audioUrl);
+  if (existing) return existing;
+
+  let download = running.get(episode.audioUrl);
+  if (!download) {
+    download = startDownloadAsync(episode).finally(() => running.delete(episode.audioUrl));
+    running.set(episode.audioUrl, download);
+  }
+  return download;
+}
+
+// The downloaded file when there is one, so playback doesn't depend on the network
+export async function getPlayableUriAsync(episode: PodcastEpisode): Promise<string> {
+  await waitForPodcastHydration();
+  const download = findDownload(usePodcastStore.getState().downloads, episode.audioUrl);
+  if (!download) return episode.audioUrl;
+
+  const info = await FileSystem.getInfoAsync(download.uri);
+  if (info.exists) return download.uri;
+
+  // The OS can clear app storage when the device runs low on space
+  usePodcastStore.getState().removeDownloads([download.uri]);
+  return episode.audioUrl;
+}
+
+// Delete expired episodes, and files left behind by downloads that never finished
+export async function removeExpiredDownloadsAsync(now: Date = new Date()) {
+  await waitForPodcastHydration();
+  const { exists } = await FileSystem.getInfoAsync(EPISODES_DIR);
+  const files = exists ? await FileSystem.readDirectoryAsync(EPISODES_DIR) : [];
+
+  // Read the downloads after listing the files, so one that finished in between isn't deleted
+  const { downloads, removeDownloads } = usePodcastStore.getState();
+  const expired = selectExpiredDownloads(downloads, now);
+  const kept = downloads.filter((download) => !expired.includes(download)).map((download) => download.uri);
+  const unused = files
+    .map((name) => `${EPISODES_DIR}${name}`)
+    .filter((uri) => !kept.includes(uri) && !partialFiles.has(uri));
+  if (unused.length === 0 && expired.length === 0) return;
+
+  console.log(`[Podcast] Removing ${unused.length} old episode file(s)`);
+  await Promise.all(unused.map((uri) => FileSystem.deleteAsync(uri, { idempotent: true })));
+  removeDownloads(expired.map((download) => download.uri));
+}
+
+// Download the episodes the routine plays ahead of alarms that have it, typically
+// overnight from the background task
+export async function downloadForUpcomingAlarmsAsync(now: Date = new Date()) {
+  await Promise.all([waitForAlarmHydration(), waitForPodcastHydration()]);
+  await removeExpiredDownloadsAsync(now);
+
+  const { checkedAt, setCheckedAt } = usePodcastStore.getState();
+  if (checkedAt && now.getTime() - new Date(checkedAt).getTime() < FEED_CHECK_MINUTES * 60 * 1000) return;
+
+  const needed = alarmScheduler
+    .getUpcomingAlarms(useAlarmStore.getState().alarms, DOWNLOAD_LOOKAHEAD_HOURS * 60 * 60, 0)
+    .some(({ alarm }) => normalizeRoutine(alarm.routine).some((step) => step.enabled && step.type === 'podcast'));
+  if (!needed) return;
+
+  for (const episode of await getRoutineEpisodesAsync()) {
+    if (findDownload(usePodcastStore.getState().downloads, episode.audioUrl)) continue;
+    console.log(`[Podcast] Downloading "${episode.title}"`);
+    await downloadEpisodeAsync(episode);
+  }
+  setCheckedAt(now.toISOString());
+}
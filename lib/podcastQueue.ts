@@ -0,0 +1,63 @@
+import { PodcastEpisode } from '~/lib/podcast';
+
+// How long the morning playlist may run, in minutes. null plays all of it.
+export const PLAYLIST_BUDGETS: (number | null)[] = [null, 15, 25, 45];
+
+export interface QueuedEpisode {
+  episode: PodcastEpisode;
+  // Seconds into the playlist it starts at, or null once an earlier episode's length is unknown
+  startsAt: number | null;
+  // False when the budget runs out before it starts
+  fits: boolean;
+}
+
+export function planQueue(episodes: PodcastEpisode[], budgetMinutes: number | null): QueuedEpisode[] {
+  let startsAt: number | null = 0;
+  return episodes.map((episode) => {
+    const fits = budgetMinutes === null || startsAt === null || startsAt < budgetMinutes * 60;
+    const planned = { episode, startsAt, fits };
+    startsAt = startsAt !== null && episode.durationSeconds != null ? startsAt + episode.durationSeconds : null;
+    return planned;
+  });
+}
+
+// Listening time left in the budget
+export function getRemainingMs(listenedMs: number, budgetMinutes: number | null): number {
+  return budgetMinutes === null ? Infinity : Math.max(0, budgetMinutes * 60 * 1000 - listenedMs);
+}
+
+// Fold newly fetched episodes into the queue. Episodes already heard stay where they
+// are, the rest keep the order they were put in, and new ones go at the end.
+export function mergeQueue(
+  queue: PodcastEpisode[],
+  current: number,
+  episodes: PodcastEpisode[],
+  skipped: string[]
+): PodcastEpisode[] {
+  const find = (list: PodcastEpisode[], audioUrl: string) => list.find((item) => item.audioUrl === audioUrl);
+  const upcoming = queue.slice(current).flatMap((episode) => find(episodes, episode.audioUrl) ?? []);
+  const added = episodes.filter(
+    (episode) => !find(queue, episode.audioUrl) && !skipped.includes(episode.audioUrl)
+  );
+  return [...queue.slice(0, current), ...upcoming, ...added];
+}
+
+export function moveQueueItem<T>(queue: T[], index: number, offset: number): T[] {
+  const to = index + offset;
+  if (index < 0 || index >= queue.length || to < 0 || to >= queue.length) return queue;
+
+  const moved = [...queue];
+  [moved[index], moved[to]] = [moved[to], moved[index]];
+  return moved;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return rest === 0 ? `${Math.floor(minutes / 60)} h` : `${Math.floor(minutes / 60)} h ${rest} min`;
+}
+
+export function formatBudget(budgetMinutes: number | null): string {
+  return budgetMinutes === null ? 'No limit' : `Stop after ${budgetMinutes} min`;
+}
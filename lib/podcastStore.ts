@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_SUBSCRIPTION, PodcastEpisode, PodcastSubscription } from '~/lib/podcast';
+import { mergeQueue, moveQueueItem } from '~/lib/podcastQueue';
+
+// Enough history for "unplayed only" to skip what was heard recently
+const MAX_PLAYED = 200;
+
+// Whether the routine's podcast step is playing the queue. The card pauses and resumes
+// it through here.
+export type PlaylistPlayback = 'stopped' | 'playing' | 'paused';
+
+// An episode saved to app storage for playback without the network
+export interface DownloadedEpisode {
+  title: string;
+  audioUrl: string;
+  feedUrl?: string;
+  uri: string;
+  downloadedAt: string;
+}
+
+interface PodcastState {
+  subscriptions: PodcastSubscription[];
+  addSubscription: (subscription: PodcastSubscription) => void;
+  updateSubscription: (url: string, changes: Partial<Omit<PodcastSubscription, 'url'>>) => void;
+  removeSubscription: (url: string) => void;
+  // Audio URLs of finished episodes, oldest first
+  played: string[];
+  markPlayed: (audioUrl: string) => void;
+  // Longest the morning playlist plays for, in minutes
+  budgetMinutes: number | null;
+  setBudgetMinutes: (budgetMinutes: number | null) => void;
+  downloads: DownloadedEpisode[];
+  addDownload: (download: DownloadedEpisode) => void;
+  removeDownloads: (uris: string[]) => void;
+  // Share of each running download that's done, from 0 to 1, by audio URL
+  progress: Record<string, number>;
+  setProgress: (audioUrl: string, value: number | null) => void;
+  // When the background task last looked for a new episode to download
+  checkedAt: string | null;
+  setCheckedAt: (checkedAt: string) => void;
+  // The morning playlist, shared by the routine's podcast step and the card.
+  // Episodes before current have been heard or skipped.
+  queue: PodcastEpisode[];
+  current: number;
+  // Time spent on earlier episodes, and how far into the current one playback is
+  listenedMs: number;
+  positionMs: number;
+  // Audio URLs taken out of the queue, so fetching the feeds again doesn't bring them back
+  skipped: string[];
+  playback: PlaylistPlayback;
+  setPlayback: (playback: PlaylistPlayback) => void;
+  loadQueue: (episodes: PodcastEpisode[]) => void;
+  // Drop what's been heard and start the budget over, keeping the place in the current episode
+  startQueue: () => void;
+  setPositionMs: (positionMs: number) => void;
+  finishEpisode: () => void;
+  skipEpisode: (index: number) => void;
+  moveEpisode: (index: number, offset: number) => void;
+}
+
+export const usePodcastStore = create<PodcastState>()(
+  persist(
+    (set, get) => ({
+      subscriptions: [DEFAULT_SUBSCRIPTION],
+      addSubscription: (subscription) =>
+        set((state) => ({ subscriptions: [...state.subscriptions, subscription] })),
+      updateSubscription: (url, changes) =>
+        set((state) => ({
+          subscriptions: state.subscriptions.map((item) => (item.url === url ? { ...item, ...changes } : item)),
+        })),
+      removeSubscription: (url) =>
+        set((state) => ({ subscriptions: state.subscriptions.filter((item) => item.url !== url) })),
+      played: [],
+      markPlayed: (audioUrl) =>
+        set((state) => ({
+          played: [...state.played.filter((url) => url !== audioUrl), audioUrl].slice(-MAX_PLAYED),
+        })),
+      budgetMinutes: null,
+      setBudgetMinutes: (budgetMinutes) => set({ budgetMinutes }),
+      downloads: [],
+      addDownload: (download) =>
+        set((state) => ({
+          downloads: [...state.downloads.filter((item) => item.audioUrl !== download.audioUrl), download],
+        })),
+      removeDownloads: (uris) =>
+        set((state) => ({ downloads: state.downloads.filter((item) => !uris.includes(item.uri)) })),
+      progress: {},
+      setProgress: (audioUrl, value) =>
+        set((state) => {
+          const progress = { ...state.progress };
+          if (value === null) delete progress[audioUrl];
+          else progress[audioUrl] = value;
+          return { progress };
+        }),
+      checkedAt: null,
+      setCheckedAt: (checkedAt) => set({ checkedAt }),
+      queue: [],
+      current: 0,
+      listenedMs: 0,
+      positionMs: 0,
+      skipped: [],
+      playback: 'stopped',
+      setPlayback: (playback) => set({ playback }),
+      loadQueue: (episodes) =>
+        set((state) => {
+          const queue = mergeQueue(state.queue, state.current, episodes, state.skipped);
+          // The current episode can drop out when its feed has a newer one
+          const same = queue[state.current]?.audioUrl === state.queue[state.current]?.audioUrl;
+          return { queue, positionMs: same ? state.positionMs : 0 };
+        }),
+      startQueue: () => set((state) => ({ queue: state.queue.slice(state.current), current: 0, listenedMs: 0 })),
+      setPositionMs: (positionMs) => set({ positionMs }),
+      finishEpisode: () => {
+        const { queue, current, markPlayed } = get();
+        if (!queue[current]) return;
+        markPlayed(queue[current].audioUrl);
+        set((state) => ({ current: state.current + 1, listenedMs: state.listenedMs + state.positionMs, positionMs: 0 }));
+      },
+      skipEpisode: (index) =>
+        set((state) => {
+          const episode = state.queue[index];
+          if (!episode || index < state.current) return {};
+          const skipped = [...state.skipped, episode.audioUrl];
+          // Skipping the current episode moves on to the next one; later ones are taken out of the queue
+          if (index === state.current) {
+            return {
+              skipped,
+              current: state.current + 1,
+              listenedMs: state.listenedMs + state.positionMs,
+              positionMs: 0,
+            };
+          }
+          return { skipped, queue: state.queue.filter((_, i) => i !== index) };
+        }),
+      // Only episodes after the current one can be reordered
+      moveEpisode: (index, offset) =>
+        set((state) => {
+          if (index <= state.current || index + offset <= state.current) return {};
+          return { queue: moveQueueItem(state.queue, index, offset) };
+        }),
+    }),
+    {
+      name: 'podcast-downloads',
+      version: 2,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        subscriptions: state.subscriptions,
+        played: state.played,
+        budgetMinutes: state.budgetMinutes,
+        downloads: state.downloads,
+        checkedAt: state.checkedAt,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as { subscriptions?: PodcastSubscription[]; played?: string[] };
+        if (version < 2) {
+          // Only downloads were saved before subscriptions, and Up First was the one feed
+          state.subscriptions = state.subscriptions ?? [DEFAULT_SUBSCRIPTION];
+          state.played = state.played ?? [];
+        }
+        return state;
+      },
+    }
+  )
+);
+
+export function waitForPodcastHydration(): Promise<void> {
+  if (usePodcastStore.persist.hasHydrated()) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = usePodcastStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
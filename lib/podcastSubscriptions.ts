@@ -0,0 +1,88 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { PodcastEpisode, PodcastSubscription, fetchFeedAsync, parseOpml, selectEpisode } from '~/lib/podcast';
+import { usePodcastStore, waitForPodcastHydration } from '~/lib/podcastStore';
+
+export interface OpmlImport {
+  added: number;
+  // Feeds that couldn't be loaded, by URL
+  failed: string[];
+}
+
+function normalizeFeedUrl(url: string): string {
+  const trimmed = url.trim();
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// Load the feed to check it and read its title and artwork, then subscribe
+export async function addSubscriptionAsync(url: string): Promise<PodcastSubscription> {
+  const feedUrl = normalizeFeedUrl(url);
+  const existing = usePodcastStore.getState().subscriptions.find((item) => item.url === feedUrl);
+  if (existing) return existing;
+
+  const feed = await fetchFeedAsync(feedUrl);
+  if (feed.episodes.length === 0) {
+    throw new Error('No episodes with audio found in this feed');
+  }
+  const subscription: PodcastSubscription = {
+    url: feedUrl,
+    title: feed.title,
+    imageUrl: feed.imageUrl,
+    inRoutine: false,
+    rule: 'latest',
+  };
+  usePodcastStore.getState().addSubscription(subscription);
+  return subscription;
+}
+
+// Let the user pick an OPML file and subscribe to the feeds in it.
+// Returns null when the picker is dismissed.
+export async function importOpmlAsync(): Promise<OpmlImport | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/x-opml', 'text/xml', 'application/xml', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const urls = parseOpml(await FileSystem.readAsStringAsync(result.assets[0].uri));
+  if (urls.length === 0) {
+    throw new Error('No podcast feeds found in this file');
+  }
+
+  const failed: string[] = [];
+  for (const url of urls) {
+    try {
+      await addSubscriptionAsync(url);
+    } catch (error) {
+      console.warn(`[Podcast] Couldn't import ${url}:`, error);
+      failed.push(url);
+    }
+  }
+  return { added: urls.length - failed.length, failed };
+}
+
+// What the morning routine plays: one episode from each subscription in the
+// routine, in the order they're listed
+export async function getRoutineEpisodesAsync(): Promise<PodcastEpisode[]> {
+  await waitForPodcastHydration();
+  const { subscriptions, played, updateSubscription } = usePodcastStore.getState();
+
+  const episodes = await Promise.all(
+    subscriptions
+      .filter((subscription) => subscription.inRoutine)
+      .map(async (subscription) => {
+        try {
+          const feed = await fetchFeedAsync(subscription.url);
+          // Pick up a new title or artwork
+          if (feed.title !== subscription.title || feed.imageUrl !== subscription.imageUrl) {
+            updateSubscription(subscription.url, { title: feed.title, imageUrl: feed.imageUrl });
+          }
+          return selectEpisode(feed, subscription.rule, played);
+        } catch (error) {
+          console.warn(`[Podcast] Couldn't load ${subscription.title}:`, error);
+          return null;
+        }
+      })
+  );
+  return episodes.filter((episode): episode is PodcastEpisode => episode !== null);
+}
@@ -0,0 +1,184 @@
+import type { BriefingRange } from '~/lib/briefing';
+
+export type RoutineStepType = 'calendar' | 'weather' | 'podcast' | 'affirmation' | 'timer';
+
+// One step of an alarm's morning routine, in the order it runs
+export interface RoutineStepConfig {
+  type: RoutineStepType;
+  enabled: boolean;
+  // Length of the timer step
+  minutes?: number;
+  // How far ahead the calendar step looks
+  range?: BriefingRange;
+}
+
+export interface RoutineContext {
+  // Number of times the alarm was snoozed before it was dismissed
+  snoozeCount: number;
+  isCancelled: () => boolean;
+}
+
+// A pluggable routine module. prepare() runs for every step up front, so slow
+// fetches overlap; run() then plays the steps one after another.
+export interface RoutineStep {
+  prepare: (context: RoutineContext) => Promise<void>;
+  run: (context: RoutineContext) => Promise<void>;
+  // Stop a running step; run() should resolve soon after
+  cancel: () => void;
+  // 0–1 while running, for steps that can measure it
+  progress: () => number;
+}
+
+export type RoutineStepStatus = 'pending' | 'preparing' | 'ready' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface RoutineStepState {
+  type: RoutineStepType;
+  status: RoutineStepStatus;
+  progress: number;
+  error?: string;
+}
+
+export const ROUTINE_STEP_INFO: Record<RoutineStepType, { title: string; description: string }> = {
+  calendar: { title: 'Calendar summary', description: "Reads out today's events" },
+  weather: { title: 'Weather', description: "Today's forecast for where you are" },
+  podcast: { title: 'Podcasts', description: 'Plays an episode from each podcast picked for the routine' },
+  affirmation: { title: 'Affirmation', description: 'A short line to start the day' },
+  timer: { title: 'Timer', description: 'Time to stretch or meditate' },
+};
+
+export const TIMER_MINUTES = [2, 5, 10, 15];
+
+export const DEFAULT_ROUTINE: RoutineStepConfig[] = [
+  { type: 'calendar', enabled: true, range: 'today' },
+  { type: 'weather', enabled: false },
+  { type: 'podcast', enabled: true },
+  { type: 'affirmation', enabled: false },
+  { type: 'timer', enabled: false, minutes: 5 },
+];
+
+// Keep the saved order, dropping unknown or repeated steps and adding steps
+// that didn't exist when the routine was saved
+export function normalizeRoutine(routine: RoutineStepConfig[] | undefined): RoutineStepConfig[] {
+  if (!routine) return DEFAULT_ROUTINE;
+
+  const saved = routine.filter(
+    (step, index, all) => step.type in ROUTINE_STEP_INFO && all.findIndex((s) => s.type === step.type) === index
+  );
+  const missing = DEFAULT_ROUTINE.filter((step) => !saved.some((s) => s.type === step.type)).map((step) => ({
+    ...step,
+    enabled: false,
+  }));
+  return [...saved, ...missing];
+}
+
+export function moveRoutineStep(routine: RoutineStepConfig[], type: RoutineStepType, offset: number) {
+  const from = routine.findIndex((step) => step.type === type);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= routine.length) return routine;
+
+  const moved = [...routine];
+  [moved[from], moved[to]] = [moved[to], moved[from]];
+  return moved;
+}
+
+export function updateRoutineStep(
+  routine: RoutineStepConfig[],
+  type: RoutineStepType,
+  changes: Partial<Omit<RoutineStepConfig, 'type'>>
+) {
+  return routine.map((step) => (step.type === type ? { ...step, ...changes } : step));
+}
+
+// "Calendar summary → Podcasts"
+export function formatRoutine(routine: RoutineStepConfig[]): string {
+  const enabled = routine.filter((step) => step.enabled);
+  if (enabled.length === 0) return 'Off';
+  return enabled.map((step) => ROUTINE_STEP_INFO[step.type].title).join(' → ');
+}
+
+export interface RoutineRunner {
+  // Resolves once every step has finished, failed or been cancelled, with false
+  // when the routine was cancelled
+  start: () => Promise<boolean>;
+  cancel: () => void;
+}
+
+const PROGRESS_INTERVAL_MS = 500;
+
+// Run the enabled steps of a routine in order. A step that fails is reported
+// and the routine moves on to the next one.
+export function createRoutineRunner(
+  routine: RoutineStepConfig[],
+  createStep: (config: RoutineStepConfig) => RoutineStep,
+  options: { snoozeCount: number; onChange: (states: RoutineStepState[]) => void }
+): RoutineRunner {
+  const configs = routine.filter((config) => config.enabled);
+  const steps = configs.map(createStep);
+  let states: RoutineStepState[] = configs.map(({ type }) => ({ type, status: 'pending', progress: 0 }));
+  let cancelled = false;
+  let current: RoutineStep | null = null;
+
+  const context: RoutineContext = {
+    snoozeCount: options.snoozeCount,
+    isCancelled: () => cancelled,
+  };
+
+  const update = (index: number, changes: Partial<RoutineStepState>) => {
+    states = states.map((state, i) => (i === index ? { ...state, ...changes } : state));
+    options.onChange(states);
+  };
+
+  const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  const start = async () => {
+    options.onChange(states);
+
+    await Promise.all(
+      steps.map(async (step, index) => {
+        update(index, { status: 'preparing' });
+        try {
+          await step.prepare(context);
+          update(index, { status: 'ready' });
+        } catch (error) {
+          console.error(`Routine step ${configs[index].type} failed to prepare:`, error);
+          update(index, { status: 'failed', error: describeError(error) });
+        }
+      })
+    );
+
+    for (const [index, step] of steps.entries()) {
+      if (cancelled) break;
+      if (states[index].status === 'failed') continue;
+
+      current = step;
+      update(index, { status: 'running' });
+      const timer = setInterval(() => update(index, { progress: step.progress() }), PROGRESS_INTERVAL_MS);
+      try {
+        await step.run(context);
+        update(index, { status: cancelled ? 'cancelled' : 'done', progress: cancelled ? step.progress() : 1 });
+      } catch (error) {
+        console.error(`Routine step ${configs[index].type} failed:`, error);
+        update(index, { status: 'failed', error: describeError(error) });
+      } finally {
+        clearInterval(timer);
+        current = null;
+      }
+    }
+
+    if (cancelled) {
+      states.forEach((state, index) => {
+        if (state.status !== 'done' && state.status !== 'failed') {
+          update(index, { status: 'cancelled' });
+        }
+      });
+    }
+    return !cancelled;
+  };
+
+  const cancel = () => {
+    cancelled = true;
+    current?.cancel();
+  };
+
+  return { start, cancel };
+}
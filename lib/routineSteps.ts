@@ -0,0 +1,250 @@
+import { Audio } from 'expo-av';
+import { RoutineStep, RoutineStepConfig } from '~/lib/routine';
+import { prepareSpeechAudioAsync, speakAsync, stopSpeaking } from '~/lib/speech';
+import { BriefingRange, DEFAULT_BRIEFING_RANGE, createBriefingPayload, getBriefingDaysAsync } from '~/lib/briefing';
+import { getBriefingAsync } from '~/lib/summarization';
+import { getBriefingCache, getBriefingFilters, getSummarizationProvider } from '~/lib/briefingStore';
+import { findCachedEpisodes, findCachedSummary } from '~/lib/briefingCache';
+import { PodcastEpisode } from '~/lib/podcast';
+import { getPlayableUriAsync } from '~/lib/podcastDownloads';
+import { usePodcastStore } from '~/lib/podcastStore';
+import { getRoutineEpisodesAsync } from '~/lib/podcastSubscriptions';
+import { getRemainingMs } from '~/lib/podcastQueue';
+import { describeWeather, fetchWeatherAsync } from '~/lib/weather';
+
+const AFFIRMATIONS = [
+  'You are ready for whatever today brings.',
+  'Small steps still move you forward.',
+  'You have done hard things before, and you can do them again.',
+  'Today is a fresh start.',
+  'Be kind to yourself today.',
+];
+
+// Opening line for the briefing when the alarm was snoozed
+const describeSnoozes = (snoozeCount: number) => {
+  if (snoozeCount <= 0) return '';
+  const times = snoozeCount === 1 ? 'once' : `${snoozeCount} times`;
+  return `Good morning. You snoozed your alarm ${times} today. `;
+};
+
+// A step that reads out text prepared ahead of time
+function createSpeechStep(getText: () => Promise<string>): RoutineStep {
+  let text = '';
+  let done = false;
+
+  return {
+    prepare: async () => {
+      text = await getText();
+    },
+    run: async () => {
+      try {
+        await prepareSpeechAudioAsync();
+      } catch (error) {
+        // Speech may end up silent, but it's still worth trying
+        console.warn('Audio setup issue, speaking anyway:', error);
+      }
+      await speakAsync(text);
+      done = true;
+    },
+    cancel: stopSpeaking,
+    progress: () => (done ? 1 : 0),
+  };
+}
+
+function createCalendarStep(range: BriefingRange): RoutineStep {
+  let summary = '';
+  const speech = createSpeechStep(async () => summary);
+
+  return {
+    ...speech,
+    prepare: async (context) => {
+      const now = new Date();
+      const days = await getBriefingDaysAsync(range, now, getBriefingFilters());
+      // Reading the calendar is quick, so only the summary comes from the pre-fetch
+      const cached = findCachedSummary(getBriefingCache(), range, days, now);
+      const text =
+        cached ??
+        (await getBriefingAsync(createBriefingPayload(days, now, range), getSummarizationProvider())).summary;
+      summary = describeSnoozes(context.snoozeCount) + text;
+      await speech.prepare(context);
+    },
+  };
+}
+
+// Why an episode stopped playing
+type PlaybackEnd = 'finished' | 'skipped' | 'stopped';
+
+// The podcast step playing the queue, so a cancelled one finishing late doesn't mark the
+// queue stopped under the one that replaced it
+let playingStep: RoutineStep | null = null;
+
+// Plays the playlist in the podcast store, so changes made from the card apply here
+function createPodcastStep(): RoutineStep {
+  let position = 0;
+  let sound: Audio.Sound | null = null;
+  let stop: (() => void) | null = null;
+  let cancelled = false;
+
+  const isCurrent = (episode: PodcastEpisode) => {
+    const { queue, current } = usePodcastStore.getState();
+    return queue[current]?.audioUrl === episode.audioUrl;
+  };
+
+  // Resolves once the episode plays to the end, is skipped from the card, or is
+  // cancelled or out of time
+  const playAsync = async (episode: PodcastEpisode): Promise<PlaybackEnd> => {
+    const uri = await getPlayableUriAsync(episode);
+    let unsubscribe = () => {};
+    let ended = false;
+
+    try {
+      return await new Promise<PlaybackEnd>((resolve, reject) => {
+        stop = () => resolve('stopped');
+        // Cancelled or skipped while the file was being looked up
+        if (cancelled || !isCurrent(episode)) {
+          resolve(cancelled ? 'stopped' : 'skipped');
+          return;
+        }
+        unsubscribe = usePodcastStore.subscribe((state, previous) => {
+          if (!isCurrent(episode)) {
+            resolve('skipped');
+          } else if (state.playback !== previous.playback && state.playback !== 'stopped') {
+            (state.playback === 'paused' ? sound?.pauseAsync() : sound?.playAsync())?.catch((error) =>
+              console.warn('Error pausing or resuming podcast:', error)
+            );
+          }
+        });
+
+        // Pick up where the episode was left, when the routine ran out of time or was stopped
+        const { positionMs, playback } = usePodcastStore.getState();
+        const options = { shouldPlay: playback !== 'paused', positionMillis: positionMs };
+        Audio.Sound.createAsync({ uri }, options, (status) => {
+          if (!status.isLoaded) {
+            if (status.error) reject(new Error(`Playback error: ${status.error}`));
+            return;
+          }
+          if (ended) return;
+          const { listenedMs, budgetMinutes, setPositionMs } = usePodcastStore.getState();
+          setPositionMs(status.positionMillis);
+          if (status.durationMillis) {
+            position = status.positionMillis / status.durationMillis;
+          }
+          if (status.didJustFinish) resolve('finished');
+          else if (getRemainingMs(listenedMs + status.positionMillis, budgetMinutes) === 0) resolve('stopped');
+        })
+          .then(({ sound: created }) => {
+            // Done with the episode while it was still loading
+            if (ended) {
+              created.unloadAsync();
+              return;
+            }
+            sound = created;
+            if (usePodcastStore.getState().playback === 'paused') created.pauseAsync();
+          })
+          .catch(reject);
+      });
+    } finally {
+      ended = true;
+      stop = null;
+      unsubscribe();
+      await sound?.unloadAsync().catch((error) => console.warn('Error unloading podcast:', error));
+      sound = null;
+    }
+  };
+
+  const step: RoutineStep = {
+    prepare: async () => {
+      const episodes = findCachedEpisodes(getBriefingCache(), new Date()) ?? (await getRoutineEpisodesAsync());
+      usePodcastStore.getState().loadQueue(episodes);
+      const { queue, current } = usePodcastStore.getState();
+      if (current >= queue.length) {
+        throw new Error('No podcast episodes to play');
+      }
+    },
+    run: async () => {
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+      });
+
+      // Episodes one after the other, in the order of the queue, until the budget runs out
+      const { startQueue, setPlayback } = usePodcastStore.getState();
+      startQueue();
+      playingStep = step;
+      setPlayback('playing');
+      try {
+        while (!cancelled) {
+          const { queue, current } = usePodcastStore.getState();
+          if (!queue[current]) return;
+
+          position = 0;
+          const end = await playAsync(queue[current]);
+          if (end === 'stopped') return;
+          if (end === 'finished') usePodcastStore.getState().finishEpisode();
+        }
+      } finally {
+        if (playingStep === step) {
+          playingStep = null;
+          setPlayback('stopped');
+        }
+      }
+    },
+    cancel: () => {
+      cancelled = true;
+      stop?.();
+    },
+    progress: () => {
+      const { queue, current } = usePodcastStore.getState();
+      return queue.length === 0 ? 0 : Math.min(1, (current + position) / queue.length);
+    },
+  };
+  return step;
+}
+
+function createTimerStep(minutes: number): RoutineStep {
+  const durationMs = minutes * 60 * 1000;
+  let startedAt = 0;
+  let stop: (() => void) | null = null;
+
+  return {
+    prepare: async () => {},
+    run: async (context) => {
+      await speakAsync(`Starting a ${minutes} minute timer.`);
+      if (context.isCancelled()) return;
+
+      startedAt = Date.now();
+      const finished = await new Promise<boolean>((resolve) => {
+        const timeout = setTimeout(() => resolve(true), durationMs);
+        stop = () => {
+          clearTimeout(timeout);
+          resolve(false);
+        };
+      });
+      stop = null;
+
+      if (finished) {
+        await speakAsync("Time's up.");
+      }
+    },
+    cancel: () => {
+      stopSpeaking();
+      stop?.();
+    },
+    progress: () => (startedAt === 0 ? 0 : Math.min(1, (Date.now() - startedAt) / durationMs)),
+  };
+}
+
+export function createRoutineStep(config: RoutineStepConfig): RoutineStep {
+  switch (config.type) {
+    case 'calendar':
+      return createCalendarStep(config.range ?? DEFAULT_BRIEFING_RANGE);
+    case 'weather':
+      return createSpeechStep(async () => describeWeather(await fetchWeatherAsync()));
+    case 'podcast':
+      return createPodcastStep();
+    case 'affirmation':
+      return createSpeechStep(async () => AFFIRMATIONS[Math.floor(Math.random() * AFFIRMATIONS.length)]);
+    case 'timer':
+      return createTimerStep(config.minutes ?? 5);
+  }
+}
@@ -0,0 +1,93 @@
+import { addMinutes, startOfDay } from 'date-fns';
+import {
+  AlarmConfig,
+  SmartWakeAdjustment,
+  getNextActiveOccurrence,
+  getScheduledTriggerDate,
+} from '~/lib/alarms';
+import { getAlarmById, getSkipRules, useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { getFirstEventOfDayAsync } from '~/lib/calendar';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+
+// Only look at the calendar once the next occurrence is this close ("the night before")
+export const SMART_WAKE_LOOKAHEAD_HOURS = 18;
+
+interface FirstEvent {
+  title: string;
+  startDate: Date;
+}
+
+// Wake at least `leadMinutes` before the first event, but never later than the
+// set time and never before the start of that day
+export function computeSmartWake(
+  alarm: Pick<AlarmConfig, 'smartWake'>,
+  occurrence: Date,
+  firstEvent: FirstEvent | null
+): SmartWakeAdjustment | undefined {
+  if (!alarm.smartWake.enabled || !firstEvent) return undefined;
+
+  const wakeBy = addMinutes(firstEvent.startDate, -alarm.smartWake.leadMinutes);
+  if (wakeBy.getTime() >= occurrence.getTime()) return undefined;
+
+  const triggerAt = new Date(Math.max(wakeBy.getTime(), startOfDay(occurrence).getTime()));
+  triggerAt.setSeconds(0, 0);
+
+  return {
+    occurrence: occurrence.toISOString(),
+    triggerAt: triggerAt.toISOString(),
+    eventTitle: firstEvent.title,
+    eventStart: firstEvent.startDate.toISOString(),
+  };
+}
+
+// "Moved to 6:15 AM — Standup starts at 7:00 AM"
+export function describeSmartWake(adjustment: SmartWakeAdjustment): string {
+  const format = (iso: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true });
+  return `Moved to ${format(adjustment.triggerAt)} — ${adjustment.eventTitle || 'your first event'} starts at ${format(adjustment.eventStart)}`;
+}
+
+// Recompute the smart wake shift for one alarm and reschedule it if the time moved
+export async function refreshSmartWakeAsync(alarm: AlarmConfig, now: Date = new Date()) {
+  if (!alarm.enabled || !alarm.smartWake.enabled) return;
+
+  // Skipped days and days off don't ring, so look ahead to the next one that does
+  const skips = getSkipRules();
+  const occurrence = getNextActiveOccurrence(alarm, now, skips);
+  if (occurrence.getTime() - now.getTime() > SMART_WAKE_LOOKAHEAD_HOURS * 60 * 60 * 1000) return;
+
+  const event = await getFirstEventOfDayAsync(occurrence);
+  const adjustment = computeSmartWake(
+    alarm,
+    occurrence,
+    event ? { title: event.title, startDate: new Date(event.startDate) } : null
+  );
+
+  // Don't move the alarm to a time that has already passed
+  if (adjustment && new Date(adjustment.triggerAt).getTime() <= now.getTime()) return;
+
+  const updated: AlarmConfig = { ...alarm, smartWakeAdjustment: adjustment };
+  const previousTrigger = getScheduledTriggerDate(alarm, now, skips).getTime();
+  const nextTrigger = getScheduledTriggerDate(updated, now, skips);
+  useAlarmStore.getState().updateAlarm(alarm.id, { smartWakeAdjustment: adjustment });
+
+  if (nextTrigger.getTime() === previousTrigger && alarm.notificationIds.length > 0) return;
+
+  console.log(`[Smart Wake] Moving alarm ${alarm.id} to ${nextTrigger.toLocaleString()}`);
+  useAlarmStore.getState().updateAlarm(alarm.id, await alarmScheduler.scheduleAlarm(updated, now));
+}
+
+// Check tomorrow's calendar for every smart wake alarm
+export async function applySmartWakeAsync(now: Date = new Date()) {
+  await waitForAlarmHydration();
+
+  for (const { id } of useAlarmStore.getState().alarms) {
+    const alarm = getAlarmById(id);
+    if (!alarm) continue;
+    try {
+      await refreshSmartWakeAsync(alarm, now);
+    } catch (error) {
+      console.error(`[Smart Wake] Error updating alarm ${id}:`, error);
+    }
+  }
+}
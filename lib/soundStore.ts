@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+// An audio file the user imported into app storage
+export interface CustomSound {
+  id: string;
+  name: string;
+  uri: string;
+  durationMs: number;
+  // Trimmed segment that plays when the alarm rings
+  startMs: number;
+  endMs: number;
+}
+
+interface SoundState {
+  sounds: CustomSound[];
+  addSound: (sound: CustomSound) => void;
+  updateSound: (id: string, changes: Partial<Omit<CustomSound, 'id'>>) => void;
+  removeSound: (id: string) => void;
+}
+
+export const useSoundStore = create<SoundState>()(
+  persist(
+    (set) => ({
+      sounds: [],
+      addSound: (sound) => set((state) => ({ sounds: [...state.sounds, sound] })),
+      updateSound: (id, changes) =>
+        set((state) => ({
+          sounds: state.sounds.map((sound) => (sound.id === id ? { ...sound, ...changes } : sound)),
+        })),
+      removeSound: (id) =>
+        set((state) => ({ sounds: state.sounds.filter((sound) => sound.id !== id) })),
+    }),
+    {
+      name: 'custom-sounds',
+      version: 1,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ sounds: state.sounds }),
+    }
+  )
+);
+
+export function waitForSoundHydration(): Promise<void> {
+  if (useSoundStore.persist.hasHydrated()) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = useSoundStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
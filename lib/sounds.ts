@@ -0,0 +1,88 @@
+import { Audio, AVPlaybackStatusToSet } from 'expo-av';
+import { CustomSound, useSoundStore } from '~/lib/soundStore';
+
+export interface AlarmSound {
+  id: string;
+  name: string;
+  // Bundled module, or a file in app storage for imported sounds
+  file: number | { uri: string };
+  custom?: boolean;
+  startMs?: number;
+  endMs?: number;
+}
+
+// Define alarm sound options based on available sound files
+export const ALARM_SOUNDS: AlarmSound[] = [
+  { id: 'gentle_wakeup', name: 'Gentle Wakeup', file: require('~/assets/sounds/gentle_wakeup.wav') },
+  { id: 'heavy_sleeper_joke', name: 'Heavy Sleeper', file: require('~/assets/sounds/heavy_sleeper_joke.m4a') },
+  { id: 'notif_spam_joke', name: 'Notification Spam', file: require('~/assets/sounds/notif_spam_joke.m4a') },
+  { id: 'silent', name: 'Silent', file: require('~/assets/sounds/silent.mp3') },
+];
+
+// Bundled sounds from gentlest to most aggressive, used by the escalation ladder
+const ESCALATION_ORDER = ['gentle_wakeup', 'heavy_sleeper_joke', 'notif_spam_joke'];
+
+export function toAlarmSound(sound: CustomSound): AlarmSound {
+  return {
+    id: sound.id,
+    name: sound.name,
+    file: { uri: sound.uri },
+    custom: true,
+    startMs: sound.startMs,
+    endMs: sound.endMs,
+  };
+}
+
+// Bundled sounds followed by the ones the user imported
+export function getAllAlarmSounds(): AlarmSound[] {
+  return [...ALARM_SOUNDS, ...useSoundStore.getState().sounds.map(toAlarmSound)];
+}
+
+// Sound for the given follow-up step, getting harsher than the alarm's own sound
+export function getEscalationSound(baseId: string, step: number): AlarmSound {
+  const start = Math.max(0, ESCALATION_ORDER.indexOf(baseId));
+  return getAlarmSound(ESCALATION_ORDER[Math.min(start + step, ESCALATION_ORDER.length - 1)]);
+}
+
+// Look up a sound by id, falling back to the default sound
+export function getAlarmSound(id: string): AlarmSound {
+  return getAllAlarmSounds().find((sound) => sound.id === id) ?? ALARM_SOUNDS[0];
+}
+
+// Value for a notification's `sound` field. Only bundled files are registered
+// as native notification sounds, so imported ones use the system default.
+export function getNotificationSound(sound: AlarmSound): string | boolean {
+  if (sound.id === 'silent') return false;
+  return sound.custom ? true : sound.id;
+}
+
+// Load a sound for playback, keeping it inside its trimmed segment
+export async function createAlarmSoundAsync(
+  sound: AlarmSound,
+  status: AVPlaybackStatusToSet = {}
+): Promise<Audio.Sound> {
+  const startMs = sound.startMs ?? 0;
+  const endMs = sound.endMs;
+  const trimmed = startMs > 0 || endMs !== undefined;
+
+  const { sound: audio } = await Audio.Sound.createAsync(sound.file, {
+    ...status,
+    positionMillis: startMs,
+    // Native looping restarts from the beginning of the file, so trimmed sounds loop themselves
+    isLooping: status.isLooping && !trimmed,
+  });
+  if (!trimmed) return audio;
+
+  await audio.setProgressUpdateIntervalAsync(100);
+  audio.setOnPlaybackStatusUpdate((playback) => {
+    if (!playback.isLoaded) return;
+    const pastEnd = endMs !== undefined && playback.positionMillis >= endMs;
+    if (!pastEnd && !playback.didJustFinish) return;
+
+    const next = status.isLooping
+      ? audio.setPositionAsync(startMs).then(() => audio.playAsync())
+      : audio.stopAsync();
+    next.catch((err) => console.warn('Error looping trimmed sound:', err));
+  });
+  return audio;
+}
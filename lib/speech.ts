@@ -0,0 +1,56 @@
+import * as Speech from 'expo-speech';
+import { Audio, InterruptionModeIOS } from 'expo-av';
+
+// Route speech through the speaker, even in silent mode. The audio session is
+// released first, which matters when the app was just woken by an alarm.
+export async function prepareSpeechAudioAsync() {
+  await Audio.setIsEnabledAsync(false);
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  await Audio.setIsEnabledAsync(true);
+  await Audio.setAudioModeAsync({
+    allowsRecordingIOS: false,
+    playsInSilentModeIOS: true,
+    staysActiveInBackground: true,
+    shouldDuckAndroid: true,
+    playThroughEarpieceAndroid: false, // Use speaker, not earpiece
+    interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+  });
+}
+
+// Speak the text and resolve once it's done or stopped. The speech callbacks
+// don't always fire, so a timeout based on the text's length moves on regardless.
+export function speakAsync(text: string): Promise<void> {
+  const words = text.split(/\s+/).length;
+  const timeoutMs = Math.max(30000, words * 600);
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      console.log('Speech timeout triggered, moving on');
+      Speech.stop();
+      resolve();
+    }, timeoutMs);
+
+    Speech.speak(text, {
+      language: 'en',
+      pitch: 1.0,
+      rate: 0.9,
+      onDone: () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      onStopped: () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      onError: (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Speech error: ${error}`));
+      },
+    });
+  });
+}
+
+export function stopSpeaking() {
+  Speech.stop();
+}
@@ -0,0 +1,219 @@
+import { BriefingPayload, formatEventsForSummary, summarizeEventsOffline } from '~/lib/briefing';
+
+export type SummarizationProviderType = 'hosted' | 'openai' | 'template';
+
+// Turns the day's events into the spoken calendar briefing
+export interface SummarizationProvider {
+  type: SummarizationProviderType;
+  summarize: (payload: BriefingPayload) => Promise<string>;
+}
+
+export interface SummarizationSettings {
+  provider: SummarizationProviderType;
+  // Server implementing POST /api/summarize-calendar, such as scripts/mock-summary-server.js
+  hostedUrl: string;
+  hostedApiKey: string;
+  // Base URL of an OpenAI-compatible API, up to and including the version
+  openAiUrl: string;
+  openAiApiKey: string;
+  openAiModel: string;
+}
+
+export const DEFAULT_HOSTED_URL = 'https://smart-alarm-backend.vercel.app';
+
+export const DEFAULT_SUMMARIZATION: SummarizationSettings = {
+  provider: 'hosted',
+  hostedUrl: DEFAULT_HOSTED_URL,
+  hostedApiKey: '',
+  openAiUrl: 'https://api.openai.com/v1',
+  openAiApiKey: '',
+  openAiModel: 'gpt-4o-mini',
+};
+
+export const SUMMARIZATION_PROVIDER_INFO: Record<SummarizationProviderType, { title: string; description: string }> = {
+  hosted: { title: 'Summary server', description: 'The Smart Alarm backend, or your own server with the same API' },
+  openai: { title: 'OpenAI-compatible', description: 'Any chat completions API, with your own key' },
+  template: { title: 'On device', description: 'A simple summary built offline, without a network request' },
+};
+
+export interface RequestOptions {
+  timeoutMs: number;
+  // Extra attempts after a network error, time-out or server error
+  retries: number;
+  retryDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  timeoutMs: 10 * 1000,
+  retries: 1,
+  retryDelayMs: 1000,
+};
+
+const OPENAI_SYSTEM_PROMPT =
+  'You write the spoken morning briefing for an alarm clock app. You are given the current time, the ' +
+  "user's time zone and their calendar events grouped by day as JSON. Summarise them in a few friendly " +
+  'sentences that sound natural when read aloud, such as how long until the first meeting and who it is ' +
+  'with. Introduce each later day by its label, as in "Tomorrow, you have...". Leave out ' +
+  'events that are cancelled or marked free, and do not use lists or markdown.';
+
+class RequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const authorization = (apiKey: string): Record<string, string> =>
+  apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// OpenAI-style APIs nest the error message in an object, other servers send a string
+function getErrorMessage(data: unknown): string | null {
+  if (!isRecord(data)) return null;
+  if (typeof data.error === 'string') return data.error;
+  if (isRecord(data.error) && typeof data.error.message === 'string') return data.error.message;
+  return null;
+}
+
+// POST a JSON body and parse the JSON response, with a time-out and a retry for
+// failures that might go away on their own
+async function postJsonAsync(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  options: RequestOptions
+): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const data: unknown = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        const message = getErrorMessage(data) ?? `Request failed with status ${response.status}`;
+        throw new RequestError(message, response.status >= 500 || response.status === 429);
+      }
+      return data;
+    } catch (error) {
+      const failure = controller.signal.aborted
+        ? new RequestError('The summary service took too long to respond', true)
+        : error instanceof RequestError
+          ? error
+          : new RequestError(error instanceof Error ? error.message : String(error), true);
+
+      if (!failure.retryable || attempt >= options.retries) {
+        throw failure;
+      }
+      console.warn(`Summary request failed, retrying (${attempt + 1}/${options.retries}):`, failure.message);
+      await wait(options.retryDelayMs * (attempt + 1));
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+const trimSlashes = (url: string) => url.trim().replace(/\/+$/, '');
+
+export function createHostedProvider(
+  settings: Pick<SummarizationSettings, 'hostedUrl' | 'hostedApiKey'>,
+  options: RequestOptions = DEFAULT_REQUEST_OPTIONS
+): SummarizationProvider {
+  return {
+    type: 'hosted',
+    summarize: async (payload) => {
+      // calendarEvents is the original line format, for servers that don't read the structured events
+      const data = await postJsonAsync(
+        `${trimSlashes(settings.hostedUrl)}/api/summarize-calendar`,
+        { calendarEvents: formatEventsForSummary(payload.days), ...payload },
+        authorization(settings.hostedApiKey),
+        options
+      );
+      const summary = isRecord(data) ? data.summary : undefined;
+      if (typeof summary !== 'string') {
+        throw new Error('The summary service sent back an empty summary');
+      }
+      return summary;
+    },
+  };
+}
+
+export function createOpenAiProvider(
+  settings: Pick<SummarizationSettings, 'openAiUrl' | 'openAiApiKey' | 'openAiModel'>,
+  options: RequestOptions = DEFAULT_REQUEST_OPTIONS
+): SummarizationProvider {
+  return {
+    type: 'openai',
+    summarize: async (payload) => {
+      const data = await postJsonAsync(
+        `${trimSlashes(settings.openAiUrl)}/chat/completions`,
+        {
+          model: settings.openAiModel,
+          messages: [
+            { role: 'system', content: OPENAI_SYSTEM_PROMPT },
+            { role: 'user', content: JSON.stringify(payload) },
+          ],
+        },
+        authorization(settings.openAiApiKey),
+        options
+      );
+      const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+      const summary = isRecord(choice) && isRecord(choice.message) ? choice.message.content : undefined;
+      if (typeof summary !== 'string' || !summary.trim()) {
+        throw new Error('The model sent back an empty summary');
+      }
+      return summary.trim();
+    },
+  };
+}
+
+export const templateProvider: SummarizationProvider = {
+  type: 'template',
+  summarize: async (payload) => summarizeEventsOffline(payload),
+};
+
+export function createSummarizationProvider(
+  settings: SummarizationSettings,
+  options: RequestOptions = DEFAULT_REQUEST_OPTIONS
+): SummarizationProvider {
+  switch (settings.provider) {
+    case 'hosted':
+      return createHostedProvider(settings, options);
+    case 'openai':
+      return createOpenAiProvider(settings, options);
+    case 'template':
+      return templateProvider;
+  }
+}
+
+export type BriefingSource = 'online' | 'offline';
+
+export interface Briefing {
+  summary: string;
+  source: BriefingSource;
+}
+
+// Summarise the events with the chosen provider, falling back to the on-device
+// template when it fails so the routine can carry on
+export async function getBriefingAsync(
+  payload: BriefingPayload,
+  provider: SummarizationProvider
+): Promise<Briefing> {
+  const source: BriefingSource = provider.type === 'template' ? 'offline' : 'online';
+  try {
+    return { summary: await provider.summarize(payload), source };
+  } catch (error) {
+    console.warn('Summary provider unavailable, using offline summary:', error);
+    return { summary: summarizeEventsOffline(payload), source: 'offline' };
+  }
+}
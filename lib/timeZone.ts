@@ -0,0 +1,41 @@
+import { format } from 'date-fns';
+import { useAlarmStore, waitForAlarmHydration } from '~/lib/alarmStore';
+import { alarmScheduler } from '~/lib/alarmScheduler';
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// "America/New_York" -> "New York"
+export function formatTimeZone(timeZone: string): string {
+  return (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ');
+}
+
+// Time shown on the device for an instant, e.g. "8:00 PM"
+export function formatDeviceTime(date: Date): string {
+  return format(date, 'h:mm a');
+}
+
+// Reschedule every enabled alarm when the device has moved to another time zone
+// since they were last scheduled. Returns the new zone, or null when unchanged.
+export async function applyTimeZoneChangeAsync(now: Date = new Date()): Promise<string | null> {
+  await waitForAlarmHydration();
+  const current = getDeviceTimeZone();
+  const { timeZone: previous, setTimeZone, alarms, updateAlarm } = useAlarmStore.getState();
+  if (previous === current) return null;
+
+  setTimeZone(current);
+  // First run: nothing was scheduled in another zone yet
+  if (previous === null) return null;
+
+  console.log(`[Time Zone] Device moved from ${previous} to ${current}, rescheduling alarms`);
+  for (const alarm of alarms) {
+    if (!alarm.enabled) continue;
+    try {
+      updateAlarm(alarm.id, await alarmScheduler.scheduleAlarm(alarm, now));
+    } catch (error) {
+      console.error(`[Time Zone] Error rescheduling alarm ${alarm.id}:`, error);
+    }
+  }
+  return current;
+}
@@ -0,0 +1,46 @@
+export interface VolumeRampSettings {
+  enabled: boolean;
+  // Volume the alarm starts at, between 0 and 1
+  startVolume: number;
+  // How long it takes to reach full volume
+  durationSeconds: number;
+  // Sound to switch to if the alarm still hasn't been dismissed (null = keep the same sound)
+  escalateSoundId: string | null;
+  escalateAfterSeconds: number;
+}
+
+export const DEFAULT_VOLUME_RAMP: VolumeRampSettings = {
+  enabled: false,
+  startVolume: 0.1,
+  durationSeconds: 60,
+  escalateSoundId: null,
+  escalateAfterSeconds: 120,
+};
+
+// How often the ramp updates the playing sound
+export const RAMP_STEP_MS = 1000;
+
+// Volume after `elapsedMs` of ringing
+export function getRampVolume(settings: VolumeRampSettings, elapsedMs: number): number {
+  if (!settings.enabled || settings.durationSeconds <= 0) return 1;
+  const progress = Math.min(1, Math.max(0, elapsedMs / (settings.durationSeconds * 1000)));
+  return settings.startVolume + (1 - settings.startVolume) * progress;
+}
+
+// Whether it's time to switch to the escalation sound
+export function shouldEscalateSound(settings: VolumeRampSettings, elapsedMs: number): boolean {
+  return (
+    settings.enabled &&
+    settings.escalateSoundId !== null &&
+    elapsedMs >= settings.escalateAfterSeconds * 1000
+  );
+}
+
+export function formatSeconds(seconds: number): string {
+  return seconds >= 60 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+export function formatVolumeRamp(settings: VolumeRampSettings): string {
+  if (!settings.enabled) return 'Off';
+  return `Up to 100% over ${formatSeconds(settings.durationSeconds)}`;
+}
@@ -0,0 +1,79 @@
+import * as Location from 'expo-location';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+export interface WeatherReport {
+  temperature: number;
+  high: number;
+  low: number;
+  // Chance of rain today, 0–100
+  precipitationChance: number;
+  condition: string;
+  unit: 'C' | 'F';
+}
+
+// WMO weather codes used by Open-Meteo, grouped into spoken descriptions
+function describeWeatherCode(code: number): string {
+  if (code === 0) return 'clear';
+  if (code <= 2) return 'partly cloudy';
+  if (code === 3) return 'cloudy';
+  if (code <= 48) return 'foggy';
+  if (code <= 57) return 'drizzly';
+  if (code <= 67) return 'rainy';
+  if (code <= 77) return 'snowy';
+  if (code <= 82) return 'showery';
+  if (code <= 86) return 'snowy';
+  return 'stormy';
+}
+
+// Fahrenheit for the US, Celsius everywhere else
+function getTemperatureUnit(): 'C' | 'F' {
+  const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+  return locale.endsWith('-US') ? 'F' : 'C';
+}
+
+// Today's forecast for the device's location, asking for permission if needed
+export async function fetchWeatherAsync(): Promise<WeatherReport> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('Location permission is required for the weather');
+  }
+
+  const position =
+    (await Location.getLastKnownPositionAsync()) ??
+    (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low }));
+  const unit = getTemperatureUnit();
+  const params = [
+    `latitude=${position.coords.latitude}`,
+    `longitude=${position.coords.longitude}`,
+    'current=temperature_2m,weather_code',
+    'daily=temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+    'timezone=auto',
+    'forecast_days=1',
+    `temperature_unit=${unit === 'F' ? 'fahrenheit' : 'celsius'}`,
+  ].join('&');
+
+  const response = await fetch(`${FORECAST_URL}?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.reason || 'Failed to get the weather');
+  }
+
+  return {
+    temperature: Math.round(data.current.temperature_2m),
+    high: Math.round(data.daily.temperature_2m_max[0]),
+    low: Math.round(data.daily.temperature_2m_min[0]),
+    precipitationChance: data.daily.precipitation_probability_max[0] ?? 0,
+    condition: describeWeatherCode(data.current.weather_code),
+    unit,
+  };
+}
+
+// "It's 12 degrees and cloudy, with a high of 18 and a low of 9."
+export function describeWeather(report: WeatherReport): string {
+  let text = `It's ${report.temperature} degrees and ${report.condition}, with a high of ${report.high} and a low of ${report.low}.`;
+  if (report.precipitationChance >= 30) {
+    text += ` There's a ${report.precipitationChance} percent chance of rain.`;
+  }
+  return text;
+}
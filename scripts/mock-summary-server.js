@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+// Local stand-in for the summary backend, for trying the morning briefing
+// without the real service. Implements the same contract:
+//
+//   POST /api/summarize-calendar  { calendarEvents: string }  ->  { summary: string }
+//
+// Newer versions of the app also send { now, timeZone, range, days }, where each
+// day has a label ("Today", "Tomorrow morning") and events with their attendees,
+// availability and so on. Those are used when present.
+//
+// Point the app's "Summary server" URL at http://<your laptop's IP>:3001.
+//
+// Environment variables:
+//   PORT      port to listen on (default 3001)
+//   DELAY_MS  wait before answering, to try out the app's time-out
+//   FAIL      set to 1 or true to answer every request with a 500, to try out the offline fallback
+//   API_KEY   require "Authorization: Bearer <API_KEY>"
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 3001;
+const DELAY_MS = Number(process.env.DELAY_MS) || 0;
+const FAIL = ['1', 'true'].includes((process.env.FAIL || '').toLowerCase());
+const API_KEY = process.env.API_KEY || '';
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// calendarEvents is one event per line, as the app formats it
+function summarizeLines(calendarEvents) {
+  const lines = calendarEvents
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length === 0 || lines[0] === 'No events scheduled for today') {
+    return 'Good morning! Your calendar is clear today.';
+  }
+  const count = lines.length === 1 ? 'one event' : `${lines.length} events`;
+  return `Good morning! You have ${count} today: ${lines.join('; ')}.`;
+}
+
+const countEvents = (events) => (events.length === 1 ? 'one event' : `${events.length} events`);
+
+function upcomingEvents(events, now) {
+  return events
+    .filter((event) => !event.cancelled && event.availability !== 'free' && !event.allDay)
+    .filter((event) => new Date(event.end) > new Date(now))
+    .sort((a, b) => new Date(a.start) - new Date(b.start));
+}
+
+function summarizeDays(now, timeZone, days) {
+  const formatTime = (iso) =>
+    new Date(iso).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+  const [today, ...later] = days;
+  const sentences = ['Good morning!'];
+
+  const upcoming = upcomingEvents(today ? today.events : [], now);
+  if (upcoming.length === 0) {
+    sentences.push('Nothing else on your calendar today.');
+  } else {
+    const first = upcoming[0];
+    const minutes = Math.round((new Date(first.start) - new Date(now)) / 60000);
+    const people = (first.attendees || []).map((attendee) => attendee.name || attendee.email).filter(Boolean);
+    const withWhom = people.length > 0 ? ` with ${people.join(' and ')}` : '';
+    const time = formatTime(first.start);
+    const when = minutes > 0 ? `in ${minutes} minutes, at ${time}` : `now, since ${time}`;
+    sentences.push(`You have ${countEvents(upcoming)} left today.`);
+    sentences.push(`Your first one, ${first.title}${withWhom}, is ${when}.`);
+  }
+
+  for (const day of later) {
+    const events = upcomingEvents(day.events, now);
+    if (events.length > 0) {
+      const first = `${events[0].title} at ${formatTime(events[0].start)}`;
+      sentences.push(`${day.label}, you have ${countEvents(events)}, starting with ${first}.`);
+    }
+  }
+  return sentences.join(' ');
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/api/summarize-calendar') {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    setTimeout(() => {
+      if (API_KEY && req.headers.authorization !== `Bearer ${API_KEY}`) {
+        sendJson(res, 401, { error: 'Invalid API key' });
+        return;
+      }
+      if (FAIL) {
+        sendJson(res, 500, { error: 'Mock failure' });
+        return;
+      }
+
+      let request;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        sendJson(res, 400, { error: 'Body must be JSON' });
+        return;
+      }
+      if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+        sendJson(res, 400, { error: 'Body must be a JSON object' });
+        return;
+      }
+
+      if (Array.isArray(request.days)) {
+        console.log(`Summarised ${request.days.length} day(s) of structured events`);
+        const now = request.now || new Date().toISOString();
+        sendJson(res, 200, { summary: summarizeDays(now, request.timeZone, request.days) });
+        return;
+      }
+      if (typeof request.calendarEvents !== 'string') {
+        sendJson(res, 400, { error: 'calendarEvents must be a string' });
+        return;
+      }
+      console.log(`Summarised ${request.calendarEvents.split('\n').length} line(s)`);
+      sendJson(res, 200, { summary: summarizeLines(request.calendarEvents) });
+    }, DELAY_MS);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock summary server listening on http://localhost:${PORT}/api/summarize-calendar`);
+});